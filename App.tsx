@@ -1,17 +1,52 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { AppState, ProcessorState, BunnyConfig, BunnyStatus } from './types';
-import { generateChapters, cleanCaptions } from './services/geminiService';
-import { updateBunnyChapters, BUNNY_LIBRARIES } from './services/bunnyService';
-import { CheckCircleIcon, DocumentTextIcon, SpinnerIcon, DownloadIcon, MagicWandIcon, UploadIcon, ClipboardIcon } from './components/Icon';
+import { AppState, ProcessorState, BunnyConfig, BunnyStatus, ParsedTranscript, BunnyVideoInfo, BunnyChapter, BunnyVideoSummary, BunnyLibrary, LibraryHealth, AuthSession, AuditEntry, CaptionRestoreRequest, CaptionFormat, LocalizedTitles } from './types';
+import { generateChapters, cleanCaptions, generateCourseAssets, generateMoments } from './services/aiService';
+import { AI_ERROR_LABELS } from './services/aiPolicy';
+import { AiError } from './services/generationClient';
+import { updateBunnyChapters, fetchBunnyVideo, fetchLibraries, checkLibraryHealth, parseCsvToBunnyChapters, findInvalidCsvLines, chaptersToCsv } from './services/bunnyService';
+import { parseTranscript, formatTimestamp } from './services/transcriptParser';
+import { validateSrt, repairSrt } from './services/srtValidator';
+import { compareCaptionDrift } from './services/captionDrift';
+import { validateChapters, autoFixChapters, ChapterRuleContext } from './services/chapterRules';
+import { downloadTextFile, baseFileName } from './services/fileDownload';
+import { chaptersInLanguage } from './services/chapterTitles';
+import { courseAssetsToMarkdown, courseAssetsToJson } from './services/courseAssets';
+import { parseMomentsCsv, findInvalidMomentLines, momentsToCsv, validateMoments } from './services/moments';
+import { convertCaptions, CAPTION_FORMATS } from './services/captionFormat';
+import { getSession, logout, onSessionExpired } from './services/authService';
+import { CheckCircleIcon, DocumentTextIcon, SpinnerIcon, DownloadIcon, MagicWandIcon, UploadIcon, ClipboardIcon, AcademicCapIcon, FlagIcon } from './components/Icon';
+import CaptionDeployPanel from './components/CaptionDeployPanel';
+import TranslationPanel from './components/TranslationPanel';
+import ChapterTitlesPanel from './components/ChapterTitlesPanel';
+import SrtValidationReport from './components/SrtValidationReport';
+import CaptionDiffView from './components/CaptionDiffView';
+import CourseAssetsPreview from './components/CourseAssetsPreview';
+import ChapterValidationPanel from './components/ChapterValidationPanel';
+import VideoInfoCard from './components/VideoInfoCard';
+import VideoMetadataPanel from './components/VideoMetadataPanel';
+import MomentsPanel from './components/MomentsPanel';
+import ChapterTimeline from './components/ChapterTimeline';
+import BatchQueuePanel from './components/BatchQueuePanel';
+import VideoPicker from './components/VideoPicker';
+import LoginForm from './components/LoginForm';
+import AuditLogPanel from './components/AuditLogPanel';
+import VideoHistoryPanel from './components/VideoHistoryPanel';
+
+// Dropdown value for a library that is not in the registry
+const MANUAL_LIBRARY = '__manual__';
 
 const App: React.FC = () => {
   const [state, setState] = useState<ProcessorState>({
     file: null,
     fileContent: null,
+    transcript: null,
     status: AppState.IDLE,
     errorMessage: null,
+    errorAttempts: null,
     chapterResult: null,
     captionResult: null,
+    assetsResult: null,
+    momentsResult: null,
   });
 
   // Bunny.net State
@@ -19,25 +54,82 @@ const App: React.FC = () => {
   const [bunnyStatus, setBunnyStatus] = useState<BunnyStatus>(BunnyStatus.IDLE);
   const [bunnyError, setBunnyError] = useState<string | null>(null);
   const [editableCsv, setEditableCsv] = useState<string>('');
-  const [selectedLibraryName, setSelectedLibraryName] = useState<string>('');
+  const [localizedTitles, setLocalizedTitles] = useState<LocalizedTitles>({});
+  const [editableMomentsCsv, setEditableMomentsCsv] = useState<string>('');
+  const [selectedLibraryId, setSelectedLibraryId] = useState<string>(''); // Registry libraryId or MANUAL_LIBRARY
+  const [libraries, setLibraries] = useState<BunnyLibrary[]>([]);
+  const [librariesError, setLibrariesError] = useState<string | null>(null);
+  const [libraryHealth, setLibraryHealth] = useState<LibraryHealth | null>(null);
+  const [session, setSession] = useState<AuthSession | null>(() => getSession());
+  const [overrideChapterErrors, setOverrideChapterErrors] = useState(false);
+  const [videoInfo, setVideoInfo] = useState<BunnyVideoInfo | null>(null);
+  const [videoInfoLoading, setVideoInfoLoading] = useState(false);
+  const [videoInfoError, setVideoInfoError] = useState<string | null>(null);
+  const [showVideoPicker, setShowVideoPicker] = useState(false);
+  const [restoreSource, setRestoreSource] = useState<AuditEntry | null>(null); // Snapshot loaded into the chapter editor
+  const [captionRestore, setCaptionRestore] = useState<CaptionRestoreRequest | null>(null);
+  const [historyRefresh, setHistoryRefresh] = useState(0);
+  const [mode, setMode] = useState<'single' | 'batch' | 'audit'>('single');
   
   // Progress Bar State
   const [progress, setProgress] = useState(0);
   const [progressMessage, setProgressMessage] = useState('');
   
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const [pendingAction, setPendingAction] = useState<'chapters' | 'captions' | null>(null);
+  const jobControllerRef = useRef<AbortController | null>(null); // Aborts the running chapters/captions job
+  const [pendingAction, setPendingAction] = useState<'chapters' | 'captions' | 'assets' | 'moments' | null>(null);
+
+  // Any 401 from the API drops back to the sign-in form
+  useEffect(() => onSessionExpired(() => setSession(null)), []);
+
+  // Library registry (served by /api/libraries), filtered to what the signed-in user may access
+  useEffect(() => {
+    setSelectedLibraryId('');
+    setLibraryHealth(null);
+    setBunnyConfig(prev => ({ ...prev, libraryId: '' }));
+    if (!session) {
+      setLibraries([]);
+      return;
+    }
+    setLibrariesError(null);
+    fetchLibraries()
+      .then(setLibraries)
+      .catch((e: any) => setLibrariesError(e.message));
+  }, [session]);
+
+  const handleSignOut = () => {
+    logout();
+    setSession(null);
+  };
+
+  // Admins and users granted "*" may target libraries outside the registry
+  const canUseManualLibrary = !!session && (session.user.role === 'admin' || session.user.libraries.includes('*'));
 
   // Sync CSV content when result changes
   useEffect(() => {
     if (state.chapterResult?.csvContent) {
       setEditableCsv(state.chapterResult.csvContent);
+      setLocalizedTitles(state.chapterResult.localizedTitles);
     }
   }, [state.chapterResult]);
 
-  // Simulated Progress Logic
   useEffect(() => {
-    if (state.status === AppState.PROCESSING_CHAPTERS || state.status === AppState.PROCESSING_CAPTIONS) {
+    if (state.momentsResult) {
+      setEditableMomentsCsv(momentsToCsv(state.momentsResult));
+    }
+  }, [state.momentsResult]);
+
+  // Video metadata belongs to one library/video pair; drop it when the target changes
+  useEffect(() => {
+    setVideoInfo(null);
+    setVideoInfoError(null);
+    setRestoreSource(null);
+    setCaptionRestore(null);
+  }, [bunnyConfig.libraryId, bunnyConfig.videoId]);
+
+  // Simulated Progress Logic (chapters, course assets and moments are a single request; captions report real per-chunk progress)
+  useEffect(() => {
+    if (state.status === AppState.PROCESSING_CHAPTERS || state.status === AppState.PROCESSING_ASSETS || state.status === AppState.PROCESSING_MOMENTS) {
       setProgress(0);
       setProgressMessage('Initializing AI...');
       
@@ -51,11 +143,15 @@ const App: React.FC = () => {
       }, 500);
 
       const msgInterval = setInterval(() => {
-        const msgs = state.status === AppState.PROCESSING_CHAPTERS 
-          ? ['Analyzing transcript...', 'Extracting key topics...', 'Formatting timestamps...', 'Finalizing CSV...']
-          : ['Reading file...', 'Removing filler words...', 'Fixing punctuation...', 'Formatting SRT...'];
+        const msgs = state.status === AppState.PROCESSING_ASSETS
+          ? ['Analyzing transcript...', 'Summarizing chapters...', 'Collecting action items...', 'Writing quiz questions...']
+          : state.status === AppState.PROCESSING_MOMENTS
+            ? ['Analyzing transcript...', 'Finding answers and demos...', 'Spotting announcements...', 'Labelling moments...']
+            : ['Analyzing transcript...', 'Extracting key topics...', 'Formatting timestamps...', 'Finalizing CSV...'];
         
         setProgressMessage(prev => {
+          // Once the answer starts streaming, the received-character count replaces the canned messages
+          if (prev.startsWith('Receiving')) return prev;
           const idx = msgs.indexOf(prev);
           return msgs[(idx + 1) % msgs.length];
         });
@@ -80,104 +176,287 @@ const App: React.FC = () => {
     }
 
     if (!file.name.endsWith('.vtt') && !file.name.endsWith('.srt') && !file.name.endsWith('.txt')) {
-      setState(prev => ({ ...prev, errorMessage: "Please upload a valid transcript file (.vtt, .srt, or .txt)" }));
+      setState(prev => ({ ...prev, errorMessage: "Please upload a valid transcript file (.vtt, .srt, or .txt)", errorAttempts: null }));
       setPendingAction(null);
       return;
     }
 
+    let text: string;
     try {
-      const text = await file.text();
-      const newState = {
-        file,
-        fileContent: text,
-        status: AppState.IDLE,
-        errorMessage: null,
-        chapterResult: null,
-        captionResult: null
-      };
-      setState(newState);
-      setBunnyStatus(BunnyStatus.IDLE); // Reset bunny status
-      setBunnyError(null);
-
-      if (pendingAction === 'chapters') {
-        executeGenerateChapters(text);
-      } else if (pendingAction === 'captions') {
-        executeCleanCaptions(text);
-      }
+      text = await file.text();
+    } catch (err) {
+      setState(prev => ({ ...prev, errorMessage: "Failed to read file contents.", errorAttempts: null }));
       setPendingAction(null);
+      return;
+    }
 
-    } catch (err) {
-      setState(prev => ({ ...prev, errorMessage: "Failed to read file contents." }));
+    // Parse locally first so malformed files are rejected before any AI call
+    let transcript: ParsedTranscript;
+    try {
+      transcript = parseTranscript(text, file.name);
+    } catch (err: any) {
+      setState(prev => ({ ...prev, errorMessage: `Could not parse "${file.name}". ${err.message}`, errorAttempts: null }));
       setPendingAction(null);
+      if (fileInputRef.current) fileInputRef.current.value = '';
+      return;
+    }
+
+    const newState = {
+      file,
+      fileContent: text,
+      transcript,
+      status: AppState.IDLE,
+      errorMessage: null,
+      errorAttempts: null,
+      chapterResult: null,
+      captionResult: null,
+      assetsResult: null,
+      momentsResult: null
+    };
+    setState(newState);
+    setBunnyStatus(BunnyStatus.IDLE); // Reset bunny status
+    setBunnyError(null);
+
+    if (pendingAction === 'chapters') {
+      executeGenerateChapters(text, transcript);
+    } else if (pendingAction === 'captions') {
+      executeCleanCaptions(text, transcript);
+    } else if (pendingAction === 'assets') {
+      executeGenerateAssets(text, transcript);
+    } else if (pendingAction === 'moments') {
+      executeGenerateMoments(text, transcript);
     }
+    setPendingAction(null);
   };
 
-  const triggerUpload = (action: 'chapters' | 'captions') => {
+  const triggerUpload = (action: 'chapters' | 'captions' | 'assets' | 'moments') => {
     setPendingAction(action);
     fileInputRef.current?.click();
   };
 
   const resetState = () => {
+    jobControllerRef.current?.abort();
     setState({
       file: null,
       fileContent: null,
+      transcript: null,
       status: AppState.IDLE,
       errorMessage: null,
+      errorAttempts: null,
       chapterResult: null,
       captionResult: null,
+      assetsResult: null,
+      momentsResult: null,
     });
     setBunnyStatus(BunnyStatus.IDLE);
     setBunnyError(null);
     setEditableCsv('');
+    setLocalizedTitles({});
+    setEditableMomentsCsv('');
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const executeGenerateChapters = async (content: string) => {
-    setState(prev => ({ ...prev, fileContent: content, status: AppState.PROCESSING_CHAPTERS, errorMessage: null }));
+  /**
+   * Starts a cancellable job, aborting any previous one. `finishJob` clears it once the job settles.
+   */
+  const startJob = () => {
+    jobControllerRef.current?.abort();
+    const controller = new AbortController();
+    jobControllerRef.current = controller;
+    return controller;
+  };
+
+  const finishJob = (controller: AbortController) => {
+    if (jobControllerRef.current === controller) jobControllerRef.current = null;
+  };
+
+  const cancelProcessing = () => {
+    jobControllerRef.current?.abort();
+    setProgressMessage('Cancelling...');
+  };
+
+  // A cancelled job goes back to where it started: file still loaded, earlier results kept
+  const returnFromCancel = () => {
+    setState(prev => ({
+      ...prev,
+      status: prev.chapterResult || prev.captionResult || prev.assetsResult || prev.momentsResult ? AppState.COMPLETED : AppState.IDLE,
+      errorMessage: null,
+      errorAttempts: null
+    }));
+  };
+
+  const executeGenerateChapters = async (content: string, transcript: ParsedTranscript) => {
+    setState(prev => ({ ...prev, fileContent: content, status: AppState.PROCESSING_CHAPTERS, errorMessage: null, errorAttempts: null }));
+    const job = startJob();
     try {
-      const result = await generateChapters(content);
+      const result = await generateChapters(content, transcript, {
+        onStream: receivedChars => setProgressMessage(`Receiving chapters... ${receivedChars.toLocaleString()} characters`),
+        signal: job.signal,
+        titleLanguages: selectedLibrary?.chapterTitles.languages.slice(1)
+      });
       setState(prev => ({ ...prev, status: AppState.COMPLETED, chapterResult: result }));
     } catch (error: any) {
-      setState(prev => ({ ...prev, status: AppState.ERROR, errorMessage: error.message || "Error generating chapters." }));
+      if (error instanceof AiError && error.code === 'cancelled') {
+        returnFromCancel();
+        return;
+      }
+      setState(prev => ({
+        ...prev,
+        status: AppState.ERROR,
+        errorMessage: error.message || "Error generating chapters.",
+        errorAttempts: error instanceof AiError ? error.attempts : null
+      }));
+    } finally {
+      finishJob(job);
     }
   };
 
-  const executeCleanCaptions = async (content: string) => {
-    setState(prev => ({ ...prev, fileContent: content, status: AppState.PROCESSING_CAPTIONS, errorMessage: null }));
+  const executeCleanCaptions = async (content: string, transcript: ParsedTranscript) => {
+    setState(prev => ({ ...prev, fileContent: content, status: AppState.PROCESSING_CAPTIONS, errorMessage: null, errorAttempts: null }));
+    setProgress(0);
+    setProgressMessage('Splitting transcript...');
+    const job = startJob();
     try {
-      const result = await cleanCaptions(content);
+      const result = await cleanCaptions(transcript, ({ completed, total }) => {
+        setProgress((completed / total) * 100);
+        setProgressMessage(completed < total ? `Cleaned ${completed} of ${total} parts...` : 'Stitching SRT...');
+      }, job.signal);
       setState(prev => ({ ...prev, status: AppState.COMPLETED, captionResult: result }));
     } catch (error: any) {
-      setState(prev => ({ ...prev, status: AppState.ERROR, errorMessage: error.message || "Error cleaning captions." }));
+      if (error instanceof AiError && error.code === 'cancelled') {
+        returnFromCancel();
+        return;
+      }
+      setState(prev => ({
+        ...prev,
+        status: AppState.ERROR,
+        errorMessage: error.message || "Error cleaning captions.",
+        errorAttempts: error instanceof AiError ? error.attempts : null
+      }));
+    } finally {
+      finishJob(job);
+    }
+  };
+
+  // Summaries follow the chapters from Step 1 when they exist, so the LMS page matches Bunny.net
+  const executeGenerateAssets = async (content: string, transcript: ParsedTranscript) => {
+    setState(prev => ({ ...prev, fileContent: content, status: AppState.PROCESSING_ASSETS, errorMessage: null, errorAttempts: null }));
+    const job = startJob();
+    try {
+      const result = await generateCourseAssets(content, transcript, {
+        onStream: receivedChars => setProgressMessage(`Receiving course assets... ${receivedChars.toLocaleString()} characters`),
+        signal: job.signal,
+        chapters: editableChapters.length > 0 ? editableChapters : undefined
+      });
+      setState(prev => ({ ...prev, status: AppState.COMPLETED, assetsResult: result }));
+    } catch (error: any) {
+      if (error instanceof AiError && error.code === 'cancelled') {
+        returnFromCancel();
+        return;
+      }
+      setState(prev => ({
+        ...prev,
+        status: AppState.ERROR,
+        errorMessage: error.message || "Error generating course assets.",
+        errorAttempts: error instanceof AiError ? error.attempts : null
+      }));
+    } finally {
+      finishJob(job);
+    }
+  };
+
+  const executeGenerateMoments = async (content: string, transcript: ParsedTranscript) => {
+    setState(prev => ({ ...prev, fileContent: content, status: AppState.PROCESSING_MOMENTS, errorMessage: null, errorAttempts: null }));
+    const job = startJob();
+    try {
+      const result = await generateMoments(content, transcript, {
+        onStream: receivedChars => setProgressMessage(`Receiving moments... ${receivedChars.toLocaleString()} characters`),
+        signal: job.signal
+      });
+      setState(prev => ({ ...prev, status: AppState.COMPLETED, momentsResult: result }));
+    } catch (error: any) {
+      if (error instanceof AiError && error.code === 'cancelled') {
+        returnFromCancel();
+        return;
+      }
+      setState(prev => ({
+        ...prev,
+        status: AppState.ERROR,
+        errorMessage: error.message || "Error generating moments.",
+        errorAttempts: error instanceof AiError ? error.attempts : null
+      }));
+    } finally {
+      finishJob(job);
     }
   };
 
   const handleChapterClick = () => {
-    if (state.fileContent) {
-      executeGenerateChapters(state.fileContent);
+    if (state.fileContent && state.transcript) {
+      executeGenerateChapters(state.fileContent, state.transcript);
     } else {
       triggerUpload('chapters');
     }
   };
 
   const handleCaptionClick = () => {
-    if (state.fileContent) {
-      executeCleanCaptions(state.fileContent);
+    if (state.fileContent && state.transcript) {
+      executeCleanCaptions(state.fileContent, state.transcript);
     } else {
       triggerUpload('captions');
     }
   };
 
-  const downloadFile = (content: string, suffix: string, type: 'csv' | 'srt') => {
-    const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `${state.file?.name.split('.')[0]}_${suffix}.${type}`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const handleAssetsClick = () => {
+    if (state.fileContent && state.transcript) {
+      executeGenerateAssets(state.fileContent, state.transcript);
+    } else {
+      triggerUpload('assets');
+    }
+  };
+
+  const handleMomentsClick = () => {
+    if (state.fileContent && state.transcript) {
+      executeGenerateMoments(state.fileContent, state.transcript);
+    } else {
+      triggerUpload('moments');
+    }
+  };
+
+  const downloadFile = (content: string, suffix: string, type: 'csv' | 'md' | 'json' | CaptionFormat) => {
+    downloadTextFile(content, `${baseFileName(state.file?.name || 'transcript')}_${suffix}.${type}`);
+  };
+
+  // Cleaned captions are kept as SRT; other formats are converted locally on download
+  const downloadCaptions = (format: CaptionFormat) => {
+    if (!state.captionResult) return;
+    try {
+      downloadFile(convertCaptions(state.captionResult.srtContent, format), 'cleaned_cc', format);
+    } catch (err: any) {
+      setState(prev => ({ ...prev, errorMessage: `Could not convert captions to ${CAPTION_FORMATS[format].label}. ${err.message}`, errorAttempts: null }));
+    }
+  };
+
+  // Caption rules check, re-run whenever the cleaned SRT changes (e.g. after auto-repair)
+  const srtReport = React.useMemo(
+    () => (state.captionResult ? validateSrt(state.captionResult.srtContent) : null),
+    [state.captionResult]
+  );
+
+  // Drift check against the source cues; null result with an error if the SRT can't be parsed yet
+  const driftCheck = React.useMemo(() => {
+    if (!state.captionResult || !state.transcript) return null;
+    try {
+      return { report: compareCaptionDrift(state.transcript.cues, state.captionResult.srtContent), error: null };
+    } catch (err: any) {
+      return { report: null, error: `Drift check unavailable: ${err.message} Run Auto-Repair first.` };
+    }
+  }, [state.captionResult, state.transcript]);
+
+  const handleRepairSrt = () => {
+    setState(prev => prev.captionResult
+      ? { ...prev, captionResult: { ...prev.captionResult, srtContent: repairSrt(prev.captionResult.srtContent) } }
+      : prev
+    );
   };
 
   const copyToClipboard = (text: string) => {
@@ -189,17 +468,22 @@ const App: React.FC = () => {
   // --- Bunny.net Handlers ---
 
   const handleLibraryChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
-    const libName = e.target.value;
-    setSelectedLibraryName(libName);
+    const libraryId = e.target.value;
+    setSelectedLibraryId(libraryId);
+    setLibraryHealth(null);
 
-    const selectedLib = BUNNY_LIBRARIES.find(lib => lib.name === libName);
+    const selectedLib = libraries.find(lib => lib.libraryId === libraryId);
     
     if (selectedLib) {
-      setBunnyConfig(prev => ({
-        ...prev,
-        libraryId: selectedLib.id // Will be empty string if not set in code
-      }));
+      setBunnyConfig(prev => ({ ...prev, libraryId: selectedLib.libraryId }));
       setBunnyError(null);
+
+      // Surface a missing or rejected key now rather than at deploy time
+      checkLibraryHealth(selectedLib.libraryId)
+        .then(setLibraryHealth)
+        .catch((err: any) => setLibraryHealth({
+          libraryId: selectedLib.libraryId, ok: false, keyEnv: null, message: err.message, totalVideos: null
+        }));
     } else {
       setBunnyConfig(prev => ({ ...prev, libraryId: '' }));
     }
@@ -209,6 +493,118 @@ const App: React.FC = () => {
     setBunnyConfig(prev => ({ ...prev, [field]: value }));
   };
 
+  const selectedLibrary = libraries.find(lib => lib.libraryId === selectedLibraryId) || null;
+
+  // --- Chapter Validation ---
+  // Re-run on every edit so the editor always shows the current state of the CSV.
+
+  // Prefer the real encoded length from Bunny.net; fall back to the end of the transcript.
+  // Bunny.net reports a length of 0 while the video is still uploading or encoding.
+  const chapterContext = React.useMemo<ChapterRuleContext>(() => ({
+    durationSeconds: videoInfo && videoInfo.lengthSeconds > 0
+      ? Math.floor(videoInfo.lengthSeconds)
+      : state.transcript ? Math.floor(state.transcript.durationMs / 1000) : null,
+    policy: selectedLibrary?.chapterPolicy
+  }), [videoInfo, state.transcript, selectedLibrary]);
+
+  const editableChapters = React.useMemo(() => parseCsvToBunnyChapters(editableCsv), [editableCsv]);
+  const invalidCsvLines = React.useMemo(() => findInvalidCsvLines(editableCsv), [editableCsv]);
+  const chapterValidation = React.useMemo(
+    () => validateChapters(editableChapters, chapterContext),
+    [editableChapters, chapterContext]
+  );
+  const chapterErrorCount = chapterValidation.errorCount + invalidCsvLines.length;
+
+  // Moments from the editor, offered to the metadata card once there are any (sorted, as the moments card sends them)
+  const editableMoments = React.useMemo(() => parseMomentsCsv(editableMomentsCsv), [editableMomentsCsv]);
+  const proposedMoments = React.useMemo(
+    () => (editableMomentsCsv.trim() ? [...editableMoments].sort((a, b) => a.timestamp - b.timestamp) : null),
+    [editableMomentsCsv, editableMoments]
+  );
+  const momentErrorCount = React.useMemo(
+    () => findInvalidMomentLines(editableMomentsCsv).length + validateMoments(editableMoments, chapterContext.durationSeconds).errorCount,
+    [editableMomentsCsv, editableMoments, chapterContext]
+  );
+
+  // The registry decides which title language Bunny.net shows
+  const bunnyChapters = React.useMemo(() => (selectedLibrary
+    ? chaptersInLanguage(editableChapters, localizedTitles, selectedLibrary.chapterTitles.bunnyLanguage)
+    : editableChapters
+  ), [editableChapters, localizedTitles, selectedLibrary]);
+
+  const handleAutoFixChapters = () => {
+    setEditableCsv(chaptersToCsv(autoFixChapters(editableChapters, chapterContext)));
+  };
+
+  const handleCsvChange = (value: string) => {
+    setEditableCsv(value);
+    setOverrideChapterErrors(false); // Overrides apply to the data they were given for
+    setRestoreSource(null);          // Edited data is no longer the snapshot
+  };
+
+  // The timeline edits the same chapter list the CSV produces, so it writes back through the CSV
+  const handleTimelineChange = React.useCallback((chapters: BunnyChapter[]) => {
+    handleCsvChange(chaptersToCsv(chapters));
+  }, []);
+
+  // Dragging needs a well-ordered list; point the editor at Auto-Fix otherwise
+  const timelineDisabledReason = React.useMemo(() => {
+    const blocking = chapterValidation.issues.find(issue =>
+      issue.rule === 'sorted' || issue.rule === 'no-overlap' || issue.rule === 'positive-length' || issue.rule === 'no-duplicates'
+    );
+    return blocking ? `Row ${blocking.row + 1}: ${blocking.message} Use Auto-Fix to repair the order first.` : null;
+  }, [chapterValidation]);
+
+  const loadVideoInfo = async (videoId: string) => {
+    if (!bunnyConfig.libraryId.trim() || !videoId.trim()) {
+      setVideoInfoError("Select a library and enter the Video GUID first.");
+      return;
+    }
+
+    setVideoInfoLoading(true);
+    setVideoInfoError(null);
+
+    try {
+      const info = await fetchBunnyVideo(bunnyConfig.libraryId, videoId);
+      setVideoInfo(info);
+
+      // The final chapter must end at the real video length, not the last transcript timestamp
+      const length = Math.floor(info.lengthSeconds);
+      const last = editableChapters[editableChapters.length - 1];
+      if (last && length > last.start && last.end !== length) {
+        setEditableCsv(chaptersToCsv(editableChapters.map((ch, i) =>
+          i === editableChapters.length - 1 ? { ...ch, end: length } : ch
+        )));
+      }
+    } catch (e: any) {
+      setVideoInfoError(e.message);
+    } finally {
+      setVideoInfoLoading(false);
+    }
+  };
+
+  const handleFetchVideoInfo = () => loadVideoInfo(bunnyConfig.videoId);
+
+  const handlePickVideo = (video: BunnyVideoSummary) => {
+    handleBunnyConfigChange('videoId', video.guid);
+    setShowVideoPicker(false);
+    loadVideoInfo(video.guid);
+  };
+
+  // Restores load the snapshot into the editor; deploying then runs the usual validation and audit
+  const handleRestoreChapters = (entry: AuditEntry) => {
+    if (!entry.previous) return;
+    handleCsvChange(chaptersToCsv(entry.previous.chapters));
+    setLocalizedTitles({}); // Translations belonged to the titles in the editor, not the snapshot
+    setRestoreSource(entry);
+    setBunnyStatus(BunnyStatus.IDLE);
+  };
+
+  const handleLoadExistingChapters = (video: BunnyVideoInfo) => {
+    handleCsvChange(chaptersToCsv(video.chapters));
+    setLocalizedTitles({}); // Translations belonged to the previous titles
+  };
+
   const handleBunnyUpdate = async () => {
     // 1. Validations
     if (!bunnyConfig.videoId || !bunnyConfig.videoId.trim()) {
@@ -216,11 +612,16 @@ const App: React.FC = () => {
       return;
     }
 
-    if (!selectedLibraryName) {
+    if (!selectedLibraryId) {
        setBunnyError("Please select a Library.");
        return;
     }
 
+    if (selectedLibrary && !selectedLibrary.canWrite) {
+      setBunnyError(`Your account has read-only access to ${selectedLibrary.name}.`);
+      return;
+    }
+
     if (!bunnyConfig.libraryId || !bunnyConfig.libraryId.trim()) {
       setBunnyError(`Library ID is missing. Please select a library with a valid ID or enter it manually.`);
       return;
@@ -231,6 +632,12 @@ const App: React.FC = () => {
       return;
     }
 
+    if (chapterErrorCount > 0 && !overrideChapterErrors) {
+      setBunnyStatus(BunnyStatus.ERROR);
+      setBunnyError(`Chapter data has ${chapterErrorCount} error${chapterErrorCount === 1 ? '' : 's'}. Use Auto-Fix, edit the data, or tick "Deploy anyway" to override.`);
+      return;
+    }
+
     // 2. Start Process
     setBunnyStatus(BunnyStatus.UPLOADING);
     setBunnyError(null);
@@ -241,9 +648,12 @@ const App: React.FC = () => {
         '', 
         bunnyConfig.libraryId.trim(), 
         bunnyConfig.videoId.trim(), 
-        editableCsv
+        bunnyChapters,
+        restoreSource?.id
       );
       setBunnyStatus(BunnyStatus.SUCCESS);
+      setRestoreSource(null);
+      setHistoryRefresh(k => k + 1);
     } catch (e: any) {
       console.error("Bunny Update Caught Error:", e);
       setBunnyStatus(BunnyStatus.ERROR);
@@ -251,17 +661,17 @@ const App: React.FC = () => {
     }
   };
 
-  // Check if the selected library has a hardcoded ID
-  const isIdHardcoded = React.useMemo(() => {
-    const lib = BUNNY_LIBRARIES.find(l => l.name === selectedLibraryName);
-    return lib && lib.id !== "";
-  }, [selectedLibraryName]);
+  // Registry libraries fix the ID; "Other" lets the user type one
+  const isIdHardcoded = !!selectedLibrary;
 
   const envVarHint = React.useMemo(() => {
+    if (selectedLibrary) {
+      return selectedLibrary.keyConfigured ? null : selectedLibrary.keyEnv;
+    }
     if (!bunnyConfig.libraryId) return null;
     const cleanId = bunnyConfig.libraryId.trim();
-    return `BUNNY_KEY_NAME_${cleanId} OR BUNNY_API_KEY`;
-  }, [bunnyConfig.libraryId]);
+    return `BUNNY_KEY_${cleanId} OR BUNNY_API_KEY`;
+  }, [selectedLibrary, bunnyConfig.libraryId]);
 
   return (
     <div className="min-h-screen font-sans bg-slate-50 text-slate-800">
@@ -284,8 +694,22 @@ const App: React.FC = () => {
               <h1 className="text-xl font-bold text-slate-900 tracking-tight">Bunny.net Processor</h1>
             </div>
           </div>
+
+          {session && (
+          <div className="flex bg-slate-100 rounded-lg p-1 border border-slate-200 text-xs font-bold">
+            {(['single', 'batch', 'audit'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-3 py-1.5 rounded-md transition ${mode === m ? 'bg-white text-brand-600 shadow-sm' : 'text-slate-500 hover:text-slate-700'}`}
+              >
+                {m === 'single' ? 'Single File' : m === 'batch' ? 'Batch Queue' : 'Audit Log'}
+              </button>
+            ))}
+          </div>
+          )}
           
-          {state.file && (
+          {session && mode === 'single' && state.file && (
              <div className="flex items-center bg-slate-100 px-3 py-1.5 rounded-full border border-slate-200">
                 <DocumentTextIcon />
                 <span className="text-xs font-medium text-slate-600 ml-2 mr-3 truncate max-w-[150px]">
@@ -296,11 +720,35 @@ const App: React.FC = () => {
                 </button>
              </div>
           )}
+
+          {session && (
+            <div className="flex items-center gap-2 text-xs">
+              <span className="font-medium text-slate-600">{session.user.username}</span>
+              <span className="px-2 py-0.5 rounded bg-slate-100 border border-slate-200 text-slate-500 uppercase font-bold text-[10px]">{session.user.role}</span>
+              <button onClick={handleSignOut} className="text-slate-500 hover:text-red-600 font-bold px-2 border-l border-slate-300">
+                SIGN OUT
+              </button>
+            </div>
+          )}
         </div>
       </header>
 
       <main className="max-w-6xl mx-auto px-6 py-12">
-        
+
+        {!session ? (
+          <LoginForm onSignedIn={setSession} />
+        ) : (
+        <>
+        {mode === 'audit' && (
+          <AuditLogPanel libraries={libraries} libraryId={bunnyConfig.libraryId} videoId={bunnyConfig.videoId} />
+        )}
+
+        {/* Batch mode stays mounted while hidden so switching modes keeps the queue */}
+        <div className={mode === 'batch' ? '' : 'hidden'}>
+          <BatchQueuePanel libraries={libraries} />
+        </div>
+
+        <div className={mode === 'single' ? '' : 'hidden'}>
         {/* Error Notification */}
         {state.errorMessage && (
           <div className="bg-red-50 border-l-4 border-red-500 p-4 mb-8 rounded-r shadow-sm animate-fade-in">
@@ -308,6 +756,18 @@ const App: React.FC = () => {
               <div className="ml-3">
                 <p className="text-sm text-red-700 font-medium">Error Occurred</p>
                 <p className="text-sm text-red-600 mt-1">{state.errorMessage}</p>
+                {state.errorAttempts && state.errorAttempts.length > 0 && (
+                  <ol className="mt-2 space-y-0.5 text-xs text-red-600/80 list-decimal list-inside">
+                    {state.errorAttempts.map((attempt, i) => (
+                      <li key={i}>
+                        <span className="font-mono">{attempt.model}</span>
+                        {attempt.attempt > 1 && ` (retry ${attempt.attempt - 1})`}
+                        {' – '}<span className="font-semibold">{AI_ERROR_LABELS[attempt.code]}</span>
+                        {` after ${(attempt.durationMs / 1000).toFixed(1)}s: ${attempt.message}`}
+                      </li>
+                    ))}
+                  </ol>
+                )}
               </div>
             </div>
           </div>
@@ -321,10 +781,24 @@ const App: React.FC = () => {
             </div>
             <div>
               <h2 className="text-2xl font-bold text-slate-800 tracking-tight">Process Transcript</h2>
-              <p className="text-slate-500 text-sm mt-1">Upload your file to generate chapters or clean captions.</p>
+              <p className="text-slate-500 text-sm mt-1">Upload your file to generate chapters, clean captions, build course assets or find key moments.</p>
             </div>
           </div>
 
+          {/* Parsed Transcript Summary */}
+          {state.transcript && (
+            <div className="pl-0 md:pl-14 -mt-4 mb-8 flex flex-wrap gap-2 text-xs font-medium text-slate-600">
+              <span className="bg-white border border-slate-200 px-2 py-1 rounded uppercase">{state.transcript.format}</span>
+              <span className="bg-white border border-slate-200 px-2 py-1 rounded">{state.transcript.cues.length} cues</span>
+              <span className="bg-white border border-slate-200 px-2 py-1 rounded">Duration {formatTimestamp(state.transcript.durationMs)}</span>
+              {state.transcript.speakers.length > 0 && (
+                <span className="bg-white border border-slate-200 px-2 py-1 rounded truncate max-w-full" title={state.transcript.speakers.join(', ')}>
+                  {state.transcript.speakers.length} speaker{state.transcript.speakers.length === 1 ? '' : 's'}: {state.transcript.speakers.slice(0, 3).join(', ')}{state.transcript.speakers.length > 3 ? '…' : ''}
+                </span>
+              )}
+            </div>
+          )}
+
           <div className="pl-0 md:pl-14">
             {/* Main Tool Cards Grid */}
             <div className="grid grid-cols-1 md:grid-cols-2 gap-8 mb-10">
@@ -353,6 +827,12 @@ const App: React.FC = () => {
                         <div className="w-full bg-purple-100 rounded-full h-2 overflow-hidden">
                           <div className="bg-purple-600 h-2 rounded-full transition-all duration-300" style={{ width: `${progress}%` }}></div>
                         </div>
+                        <button
+                          onClick={cancelProcessing}
+                          className="mt-3 w-full py-2 rounded-lg border border-purple-200 text-purple-700 text-sm font-bold hover:bg-purple-50 transition"
+                        >
+                          Cancel
+                        </button>
                       </div>
                     )}
 
@@ -422,6 +902,12 @@ const App: React.FC = () => {
                         <div className="w-full bg-brand-100 rounded-full h-2 overflow-hidden">
                           <div className="bg-brand-600 h-2 rounded-full transition-all duration-300" style={{ width: `${progress}%` }}></div>
                         </div>
+                        <button
+                          onClick={cancelProcessing}
+                          className="mt-3 w-full py-2 rounded-lg border border-brand-100 text-brand-600 text-sm font-bold hover:bg-brand-50 transition"
+                        >
+                          Cancel
+                        </button>
                       </div>
                     )}
 
@@ -431,13 +917,28 @@ const App: React.FC = () => {
                             <CheckCircleIcon />
                             <span className="ml-2">Processing Complete</span>
                           </div>
+                          {srtReport && srtReport.issues.length > 0 && (
+                            <p className="text-xs text-amber-700">
+                              {srtReport.errorCount} errors, {srtReport.warningCount} warnings found. Review the validation report below before downloading.
+                            </p>
+                          )}
                           <div className="flex gap-2">
                             <button
-                              onClick={() => downloadFile(state.captionResult!.srtContent, 'cleaned_cc', 'srt')}
+                              onClick={() => downloadCaptions('srt')}
                               className="flex-1 py-2.5 bg-slate-900 text-white rounded-lg font-medium hover:bg-slate-800 transition flex items-center justify-center"
                             >
                               <DownloadIcon /> Download SRT
                             </button>
+                            {(['vtt', 'txt'] as CaptionFormat[]).map(format => (
+                              <button
+                                key={format}
+                                onClick={() => downloadCaptions(format)}
+                                className="px-3 py-2.5 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-bold hover:bg-slate-50 transition"
+                                title={`Download as ${CAPTION_FORMATS[format].label}`}
+                              >
+                                {format.toUpperCase()}
+                              </button>
+                            ))}
                              <button
                               onClick={() => copyToClipboard(state.captionResult!.srtContent)}
                               className="px-4 py-2.5 bg-white border border-slate-300 text-slate-700 rounded-lg font-medium hover:bg-slate-50 transition flex items-center justify-center"
@@ -466,27 +967,181 @@ const App: React.FC = () => {
                     )}
                   </div>
                 </div>
+
+                {/* Course Assets Card */}
+                <div className={`relative bg-white rounded-2xl border transition-all duration-300 flex flex-col overflow-hidden group
+                  ${state.status === AppState.PROCESSING_ASSETS ? 'ring-2 ring-emerald-500 border-transparent' : 'border-slate-200 hover:shadow-xl hover:-translate-y-1'}
+                `}>
+                  <div className="h-2 bg-gradient-to-r from-emerald-500 to-teal-400"></div>
+                  <div className="p-8 flex-grow">
+                    <div className="w-12 h-12 bg-emerald-100 text-emerald-600 rounded-xl flex items-center justify-center mb-6">
+                      <AcademicCapIcon />
+                    </div>
+                    <h3 className="text-2xl font-bold text-slate-900 mb-3">Course Assets</h3>
+                    <p className="text-slate-500 leading-relaxed mb-6">
+                      Writes a session description, chapter summaries, action items and a multiple-choice quiz with answer timestamps for your LMS.
+                    </p>
+
+                    {/* Progress Bar for Course Assets */}
+                    {state.status === AppState.PROCESSING_ASSETS && (
+                      <div className="mb-6">
+                        <div className="flex justify-between text-xs font-bold text-emerald-600 mb-1">
+                          <span>{progressMessage}</span>
+                          <span>{Math.round(progress)}%</span>
+                        </div>
+                        <div className="w-full bg-emerald-100 rounded-full h-2 overflow-hidden">
+                          <div className="bg-emerald-600 h-2 rounded-full transition-all duration-300" style={{ width: `${progress}%` }}></div>
+                        </div>
+                        <button
+                          onClick={cancelProcessing}
+                          className="mt-3 w-full py-2 rounded-lg border border-emerald-200 text-emerald-700 text-sm font-bold hover:bg-emerald-50 transition"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    )}
+
+                    {state.assetsResult ? (
+                       <div className="bg-green-50 rounded-lg p-4 border border-green-100 flex flex-col gap-3">
+                          <div className="flex items-center text-green-700 font-semibold">
+                            <CheckCircleIcon />
+                            <span className="ml-2">Processing Complete</span>
+                          </div>
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => downloadFile(courseAssetsToMarkdown(state.assetsResult!), 'course_assets', 'md')}
+                              className="flex-1 py-2.5 bg-slate-900 text-white rounded-lg font-medium hover:bg-slate-800 transition flex items-center justify-center"
+                            >
+                              <DownloadIcon /> Download Markdown
+                            </button>
+                            <button
+                              onClick={() => downloadFile(courseAssetsToJson(state.assetsResult!), 'course_assets', 'json')}
+                              className="px-3 py-2.5 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-bold hover:bg-slate-50 transition"
+                              title="Download as JSON"
+                            >
+                              JSON
+                            </button>
+                            <button
+                              onClick={() => copyToClipboard(courseAssetsToMarkdown(state.assetsResult!))}
+                              className="px-4 py-2.5 bg-white border border-slate-300 text-slate-700 rounded-lg font-medium hover:bg-slate-50 transition flex items-center justify-center"
+                              title="Copy Markdown to Clipboard"
+                            >
+                              <ClipboardIcon />
+                            </button>
+                          </div>
+                       </div>
+                    ) : (
+                      <button 
+                        onClick={handleAssetsClick}
+                        disabled={state.status !== AppState.IDLE && state.status !== AppState.COMPLETED}
+                        className={`w-full py-4 rounded-xl font-bold text-white shadow-lg shadow-emerald-200 transition-all flex items-center justify-center gap-2
+                          ${state.status === AppState.PROCESSING_ASSETS 
+                            ? 'bg-emerald-400 cursor-not-allowed' 
+                            : 'bg-emerald-600 hover:bg-emerald-700 hover:shadow-emerald-300 active:scale-95'
+                          }`}
+                      >
+                         {state.status === AppState.PROCESSING_ASSETS ? (
+                            <><SpinnerIcon /> Processing...</>
+                         ) : (
+                            state.file ? 'Process Course Assets' : 'Upload & Build Course Assets'
+                         )}
+                      </button>
+                    )}
+                  </div>
+                </div>
+
+                {/* Moments Card */}
+                <div className={`relative bg-white rounded-2xl border transition-all duration-300 flex flex-col overflow-hidden group
+                  ${state.status === AppState.PROCESSING_MOMENTS ? 'ring-2 ring-amber-500 border-transparent' : 'border-slate-200 hover:shadow-xl hover:-translate-y-1'}
+                `}>
+                  <div className="h-2 bg-gradient-to-r from-amber-500 to-orange-400"></div>
+                  <div className="p-8 flex-grow">
+                    <div className="w-12 h-12 bg-amber-100 text-amber-600 rounded-xl flex items-center justify-center mb-6">
+                      <FlagIcon />
+                    </div>
+                    <h3 className="text-2xl font-bold text-slate-900 mb-3">Key Moments</h3>
+                    <p className="text-slate-500 leading-relaxed mb-6">
+                      Marks notable points on the timeline (Q&amp;A answers, demos, announcements) as Bunny.net moments, each at a single timestamp.
+                    </p>
+
+                    {/* Progress Bar for Moments */}
+                    {state.status === AppState.PROCESSING_MOMENTS && (
+                      <div className="mb-6">
+                        <div className="flex justify-between text-xs font-bold text-amber-600 mb-1">
+                          <span>{progressMessage}</span>
+                          <span>{Math.round(progress)}%</span>
+                        </div>
+                        <div className="w-full bg-amber-100 rounded-full h-2 overflow-hidden">
+                          <div className="bg-amber-600 h-2 rounded-full transition-all duration-300" style={{ width: `${progress}%` }}></div>
+                        </div>
+                        <button
+                          onClick={cancelProcessing}
+                          className="mt-3 w-full py-2 rounded-lg border border-amber-200 text-amber-700 text-sm font-bold hover:bg-amber-50 transition"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                    )}
+
+                    {state.momentsResult ? (
+                       <div className="bg-green-50 rounded-lg p-4 border border-green-100 flex flex-col gap-3">
+                          <div className="flex items-center text-green-700 font-semibold">
+                            <CheckCircleIcon />
+                            <span className="ml-2">{state.momentsResult.length} Moments Found</span>
+                          </div>
+                          <div className="flex gap-2">
+                            <button
+                              onClick={() => downloadFile(momentsToCsv(state.momentsResult!), 'moments', 'csv')}
+                              className="flex-1 py-2.5 bg-slate-900 text-white rounded-lg font-medium hover:bg-slate-800 transition flex items-center justify-center"
+                            >
+                              <DownloadIcon /> Download CSV
+                            </button>
+                            <button
+                              onClick={() => copyToClipboard(momentsToCsv(state.momentsResult!))}
+                              className="px-4 py-2.5 bg-white border border-slate-300 text-slate-700 rounded-lg font-medium hover:bg-slate-50 transition flex items-center justify-center"
+                              title="Copy Moments to Clipboard"
+                            >
+                              <ClipboardIcon />
+                            </button>
+                          </div>
+                       </div>
+                    ) : (
+                      <button 
+                        onClick={handleMomentsClick}
+                        disabled={state.status !== AppState.IDLE && state.status !== AppState.COMPLETED}
+                        className={`w-full py-4 rounded-xl font-bold text-white shadow-lg shadow-amber-200 transition-all flex items-center justify-center gap-2
+                          ${state.status === AppState.PROCESSING_MOMENTS 
+                            ? 'bg-amber-400 cursor-not-allowed' 
+                            : 'bg-amber-600 hover:bg-amber-700 hover:shadow-amber-300 active:scale-95'
+                          }`}
+                      >
+                         {state.status === AppState.PROCESSING_MOMENTS ? (
+                            <><SpinnerIcon /> Processing...</>
+                         ) : (
+                            state.file ? 'Process Moments' : 'Upload & Find Moments'
+                         )}
+                      </button>
+                    )}
+                  </div>
+                </div>
             </div>
 
-            {/* Output Section (Preview) - Visible if ANY result exists */}
-            {(state.chapterResult || state.captionResult) && (
+            {/* Chapters Output Preview */}
+            {state.chapterResult && (
               <div className="animate-fade-in-up mb-8">
                 
                 {/* 1. Preview Panel */}
                 <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
                    <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex justify-between items-center">
-                      <h4 className="font-bold text-slate-700">
-                        {state.chapterResult ? "Chapters Output Preview" : "Captions Output Preview"}
-                      </h4>
+                      <h4 className="font-bold text-slate-700">Chapters Output Preview</h4>
                    </div>
                    
                    {/* CHAPTERS PREVIEW */}
-                   {state.chapterResult && (
-                     <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-slate-200">
+                   <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-slate-200">
                         {/* Human Readable */}
                         <div className="p-6">
                           <h5 className="text-xs uppercase tracking-wide text-slate-500 font-bold mb-3 flex justify-between items-center">
-                            <span>Human Readable (Part 1)</span>
+                            <span>Human Readable</span>
                             <div className="flex gap-2">
                               <span className="text-brand-600 bg-brand-50 px-2 py-0.5 rounded text-[10px]">Formatted: HH:MM:SS</span>
                               <button onClick={() => copyToClipboard(state.chapterResult!.humanReadable)} className="text-slate-400 hover:text-brand-600 transition">
@@ -494,14 +1149,19 @@ const App: React.FC = () => {
                               </button>
                             </div>
                           </h5>
-                          <div className="bg-white rounded border border-slate-200 p-4 font-mono text-sm text-slate-700 whitespace-pre-line overflow-auto max-h-96 custom-scrollbar shadow-inner">
-                            {state.chapterResult.humanReadable}
+                          <div className="bg-white rounded border border-slate-200 p-4 text-sm text-slate-700 overflow-auto max-h-96 custom-scrollbar shadow-inner space-y-3">
+                            {state.chapterResult.chapters.map(ch => (
+                              <div key={ch.start}>
+                                <p className="font-mono">{formatTimestamp(ch.start * 1000)} – {ch.title}</p>
+                                {ch.summary && <p className="text-xs text-slate-500 mt-0.5 pl-[5.5rem]">{ch.summary}</p>}
+                              </div>
+                            ))}
                           </div>
                         </div>
                         {/* CSV Preview */}
                         <div className="p-6 bg-slate-50">
                           <h5 className="text-xs uppercase tracking-wide text-slate-500 font-bold mb-3 flex justify-between items-center">
-                            <span>Bunny.net CSV (Part 2)</span>
+                            <span>Bunny.net CSV</span>
                             <div className="flex gap-2">
                               <span className="text-green-600 bg-green-50 px-2 py-0.5 rounded text-[10px]">Generated</span>
                               <button onClick={() => copyToClipboard(state.chapterResult!.csvContent)} className="text-slate-400 hover:text-green-600 transition">
@@ -513,11 +1173,22 @@ const App: React.FC = () => {
                             {state.chapterResult.csvContent}
                           </div>
                         </div>
-                     </div>
-                   )}
+                   </div>
+
+                </div>
+              </div>
+            )}
+
+            {/* Captions Output Preview, with its validation report and drift check */}
+            {state.captionResult && (
+              <div className="animate-fade-in-up mb-8">
+                <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                   <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+                      <h4 className="font-bold text-slate-700">Captions Output Preview</h4>
+                   </div>
 
                    {/* CAPTIONS PREVIEW */}
-                   {(!state.chapterResult && state.captionResult) && (
+                   <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-slate-200">
                      <div className="p-6">
                         <h5 className="text-xs uppercase tracking-wide text-slate-500 font-bold mb-3 flex justify-between items-center">
                             <span>Cleaned SRT Content</span>
@@ -532,11 +1203,41 @@ const App: React.FC = () => {
                             {state.captionResult.srtContent}
                         </div>
                      </div>
+                     {/* Validation Report */}
+                     {srtReport && (
+                       <div className="p-6 bg-slate-50">
+                         <SrtValidationReport report={srtReport} onRepair={handleRepairSrt} />
+                       </div>
+                     )}
+                   </div>
+
+                   {/* CAPTION DRIFT CHECK */}
+                   {driftCheck && (
+                     driftCheck.report ? (
+                       <CaptionDiffView report={driftCheck.report} />
+                     ) : (
+                       <div className="p-6 border-t border-slate-200 text-sm text-amber-700">{driftCheck.error}</div>
+                     )
                    )}
 
                 </div>
               </div>
             )}
+
+            {/* Course Assets Preview */}
+            {state.assetsResult && (
+              <div className="animate-fade-in-up mb-8">
+                <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+                  <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+                    <h4 className="font-bold text-slate-700">Course Assets Preview</h4>
+                    <span className="text-emerald-600 bg-emerald-50 px-2 py-0.5 rounded text-[10px] font-bold uppercase tracking-wide">
+                      {state.assetsResult.chapterSummaries.length} chapters · {state.assetsResult.quiz.length} questions
+                    </span>
+                  </div>
+                  <CourseAssetsPreview assets={state.assetsResult} />
+                </div>
+              </div>
+            )}
           </div>
         </section>
         
@@ -555,7 +1256,7 @@ const App: React.FC = () => {
             </div>
             <div>
               <h2 className="text-2xl font-bold text-slate-800 tracking-tight">Deploy to Bunny.net</h2>
-              <p className="text-slate-500 text-sm mt-1">Update chapters directly to your video library.</p>
+              <p className="text-slate-500 text-sm mt-1">Update chapters and captions directly in your video library.</p>
             </div>
           </div>
 
@@ -584,15 +1285,26 @@ const App: React.FC = () => {
                       <div>
                         <label className="block text-slate-400 text-xs font-bold mb-2">Select Library</label>
                         <select 
-                          value={selectedLibraryName}
+                          value={selectedLibraryId}
                           onChange={handleLibraryChange}
                           className="w-full bg-slate-800 border border-slate-700 text-white rounded px-3 py-2 text-sm focus:outline-none focus:border-brand-500 transition-colors"
                         >
                           <option value="">-- Select your Funnel --</option>
-                          {BUNNY_LIBRARIES.map(lib => (
-                            <option key={lib.name} value={lib.name}>{lib.name}</option>
+                          {libraries.map(lib => (
+                            <option key={lib.libraryId} value={lib.libraryId}>{lib.name}</option>
                           ))}
+                          {canUseManualLibrary && <option value={MANUAL_LIBRARY}>Other (enter Library ID)</option>}
                         </select>
+                        {librariesError && (
+                          <p className="text-red-400 text-xs mt-1 whitespace-pre-line">Could not load libraries: {librariesError}</p>
+                        )}
+                        {libraryHealth && libraryHealth.libraryId === bunnyConfig.libraryId && (
+                          <p className={`text-xs mt-1 ${libraryHealth.ok ? 'text-green-500' : 'text-red-400'}`}>
+                            {libraryHealth.ok
+                              ? `Connected via ${libraryHealth.keyEnv} · ${libraryHealth.totalVideos ?? '?'} videos`
+                              : libraryHealth.message}
+                          </p>
+                        )}
                       </div>
                       
                       <div>
@@ -607,7 +1319,7 @@ const App: React.FC = () => {
                           readOnly={isIdHardcoded}
                           value={bunnyConfig.libraryId}
                           onChange={(e) => handleBunnyConfigChange('libraryId', e.target.value)}
-                          placeholder={selectedLibraryName ? "Enter Library ID" : ""}
+                          placeholder={selectedLibraryId ? "Enter Library ID" : ""}
                           className={`w-full bg-slate-900/50 border border-slate-800 text-slate-300 rounded px-3 py-2 text-sm focus:outline-none font-mono
                             ${isIdHardcoded ? 'text-slate-500 cursor-not-allowed' : 'focus:border-brand-500'}
                           `}
@@ -618,15 +1330,65 @@ const App: React.FC = () => {
                      <div className="grid grid-cols-1">
                         <div>
                         <label className="block text-slate-400 text-xs font-bold mb-2">Video GUID</label>
-                        <input 
-                          type="text"
-                          placeholder="e.g. abc-123-def-456"
-                          value={bunnyConfig.videoId}
-                          onChange={(e) => handleBunnyConfigChange('videoId', e.target.value)}
-                          className="w-full bg-slate-800 border border-slate-700 text-white rounded px-3 py-2 text-sm focus:outline-none focus:border-brand-500 transition-colors placeholder-slate-600"
-                        />
+                        <div className="flex gap-2">
+                          <input 
+                            type="text"
+                            placeholder="e.g. abc-123-def-456"
+                            value={bunnyConfig.videoId}
+                            onChange={(e) => handleBunnyConfigChange('videoId', e.target.value)}
+                            className="w-full bg-slate-800 border border-slate-700 text-white rounded px-3 py-2 text-sm focus:outline-none focus:border-brand-500 transition-colors placeholder-slate-600"
+                          />
+                          <button
+                            onClick={() => setShowVideoPicker(open => !open)}
+                            className={`flex-shrink-0 px-4 py-2 bg-slate-800 border rounded text-sm font-bold hover:border-brand-500 hover:text-white transition
+                              ${showVideoPicker ? 'border-brand-500 text-white' : 'border-slate-700 text-slate-300'}`}
+                          >
+                            Browse
+                          </button>
+                          <button
+                            onClick={handleFetchVideoInfo}
+                            disabled={videoInfoLoading}
+                            className="flex-shrink-0 px-4 py-2 bg-slate-800 border border-slate-700 text-slate-300 rounded text-sm font-bold hover:border-brand-500 hover:text-white transition disabled:opacity-50"
+                          >
+                            {videoInfoLoading ? 'Fetching...' : 'Fetch Video Info'}
+                          </button>
+                        </div>
                       </div>
                      </div>
+
+                     {showVideoPicker && (
+                       <VideoPicker
+                         libraryId={bunnyConfig.libraryId}
+                         fileName={state.file?.name ?? null}
+                         fileDate={state.file?.lastModified ?? null}
+                         selectedVideoId={bunnyConfig.videoId}
+                         onSelect={handlePickVideo}
+                       />
+                     )}
+
+                     {videoInfoError && (
+                       <div className="p-3 bg-red-500/10 border border-red-500/30 rounded text-red-400 text-xs break-words whitespace-pre-line">
+                         {videoInfoError}
+                       </div>
+                     )}
+
+                     {videoInfo && (
+                       <VideoInfoCard
+                         video={videoInfo}
+                         transcriptDurationMs={state.transcript?.durationMs ?? null}
+                         onLoadChapters={handleLoadExistingChapters}
+                       />
+                     )}
+
+                     {videoInfo && (
+                       <VideoHistoryPanel
+                         libraryId={bunnyConfig.libraryId}
+                         videoId={videoInfo.guid}
+                         refreshKey={historyRefresh}
+                         onRestoreChapters={handleRestoreChapters}
+                         onRestoreCaptions={setCaptionRestore}
+                       />
+                     )}
                   </div>
 
                   {/* Editable CSV Area */}
@@ -634,17 +1396,55 @@ const App: React.FC = () => {
                     <label className="block text-slate-400 text-xs font-bold mb-2">Chapter Data</label>
                     <textarea 
                       value={editableCsv}
-                      onChange={(e) => setEditableCsv(e.target.value)}
+                      onChange={(e) => handleCsvChange(e.target.value)}
                       placeholder={`Paste your chapter data here.\nYou can use Simple Format (one per line):\n0, 59, Introduction\n60, 299, Main Content`}
                       className="w-full h-40 bg-slate-800 border border-slate-700 text-slate-300 rounded px-4 py-3 text-sm font-mono focus:outline-none focus:border-brand-500 transition-colors custom-scrollbar placeholder-slate-600"
                     />
                     <p className="text-slate-500 text-xs mt-2">
                         You can paste Simple Format or the full JSON.
                     </p>
+
+                    {/* Visual Timeline */}
+                    {editableChapters.length > 0 && (
+                      <div className="mt-4">
+                        <label className="block text-slate-400 text-xs font-bold mb-2">Timeline (drag boundaries, click a chapter to edit)</label>
+                        <ChapterTimeline
+                          chapters={editableChapters}
+                          durationSeconds={chapterContext.durationSeconds ?? editableChapters[editableChapters.length - 1].end}
+                          cues={state.transcript?.cues ?? null}
+                          disabledReason={timelineDisabledReason}
+                          onChange={handleTimelineChange}
+                        />
+                      </div>
+                    )}
+
+                    {/* Chapter Rules */}
+                    <ChapterValidationPanel
+                      chapters={editableChapters}
+                      result={chapterValidation}
+                      invalidLines={invalidCsvLines}
+                      override={overrideChapterErrors}
+                      onOverrideChange={setOverrideChapterErrors}
+                      onAutoFix={handleAutoFixChapters}
+                    />
+
+                    {/* Localized Titles */}
+                    <ChapterTitlesPanel
+                      chapters={editableChapters}
+                      config={selectedLibrary?.chapterTitles ?? null}
+                      localizedTitles={localizedTitles}
+                      onChange={setLocalizedTitles}
+                      fileBaseName={baseFileName(state.file?.name || 'transcript')}
+                    />
                   </div>
 
                   {/* Action Button & Status */}
                   <div>
+                    {restoreSource && (
+                      <div className="mb-3 p-3 bg-brand-500/10 border border-brand-500/30 rounded text-brand-100 text-xs">
+                        Editor holds the chapters from before {restoreSource.username}'s update on {new Date(restoreSource.timestamp).toLocaleString()}. Review them, then restore.
+                      </div>
+                    )}
                     <button 
                       onClick={handleBunnyUpdate}
                       disabled={bunnyStatus === BunnyStatus.UPLOADING}
@@ -657,7 +1457,7 @@ const App: React.FC = () => {
                       {bunnyStatus === BunnyStatus.UPLOADING ? (
                         <span className="flex items-center justify-center gap-2"><SpinnerIcon /> Updating Bunny.net...</span>
                       ) : (
-                        "Add/Update Chapters"
+                        restoreSource ? "Restore Previous Chapters" : "Add/Update Chapters"
                       )}
                     </button>
 
@@ -678,8 +1478,64 @@ const App: React.FC = () => {
                   </div>
               </div>
             </div>
+
+            {/* 3. Moments Card */}
+            <MomentsPanel
+              libraryId={bunnyConfig.libraryId}
+              videoId={bunnyConfig.videoId}
+              csv={editableMomentsCsv}
+              onChange={setEditableMomentsCsv}
+              currentMoments={videoInfo?.moments ?? null}
+              durationSeconds={chapterContext.durationSeconds}
+              readOnlyReason={selectedLibrary && !selectedLibrary.canWrite ? `Your account has read-only access to ${selectedLibrary.name}.` : null}
+              onUpdated={() => { setHistoryRefresh(k => k + 1); handleFetchVideoInfo(); }}
+            />
+
+            {/* 4. Video Metadata Card */}
+            <VideoMetadataPanel
+              libraryId={bunnyConfig.libraryId}
+              videoId={bunnyConfig.videoId}
+              video={videoInfo}
+              loading={videoInfoLoading}
+              onFetchCurrent={handleFetchVideoInfo}
+              proposedTitle={state.assetsResult?.title ?? null}
+              proposedDescription={state.assetsResult?.description ?? null}
+              proposedMoments={proposedMoments}
+              momentsBlockedReason={momentErrorCount > 0
+                ? `Moment data has ${momentErrorCount} error${momentErrorCount === 1 ? '' : 's'}. Fix them in the moments editor first.`
+                : null}
+              chapters={bunnyChapters}
+              chaptersBlockedReason={chapterErrorCount > 0 && !overrideChapterErrors
+                ? `Chapter data has ${chapterErrorCount} error${chapterErrorCount === 1 ? '' : 's'}. Fix them in the chapter editor first.`
+                : null}
+              readOnlyReason={selectedLibrary && !selectedLibrary.canWrite ? `Your account has read-only access to ${selectedLibrary.name}.` : null}
+              onUpdated={() => { setHistoryRefresh(k => k + 1); handleFetchVideoInfo(); }}
+            />
+
+            {/* 5. Caption Deployment Card */}
+            <CaptionDeployPanel
+              libraryId={bunnyConfig.libraryId}
+              videoId={bunnyConfig.videoId}
+              srtContent={state.captionResult?.srtContent ?? null}
+              languages={selectedLibrary?.captionLanguages ?? null}
+              restoreRequest={captionRestore}
+              onUploaded={() => { setCaptionRestore(null); setHistoryRefresh(k => k + 1); }}
+            />
+
+            {/* 6. Caption Translation Card */}
+            <TranslationPanel
+              libraryId={bunnyConfig.libraryId}
+              videoId={bunnyConfig.videoId}
+              srtContent={state.captionResult?.srtContent ?? null}
+              languages={selectedLibrary?.captionLanguages ?? null}
+              fileBaseName={baseFileName(state.file?.name || 'transcript')}
+              onUploaded={() => setHistoryRefresh(k => k + 1)}
+            />
           </div>
         </section>
+        </div>
+        </>
+        )}
 
       </main>
     </div>
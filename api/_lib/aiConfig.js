@@ -0,0 +1,120 @@
+// AI model configuration: which provider and model each task uses, in fallback order.
+//
+// SOURCE (first one found wins):
+// A. AI_MODEL_CONFIG env var containing the JSON object
+// B. config/ai.json in the project root
+//
+// Shape:
+// { providers: { <name>: { type: "gemini" | "openai" | "mock", ...settings } },
+//   tasks: { chapters: ["<provider>:<model>", ...], captions: [...], translation: [...], assets: [...], moments: [...] },
+//   retry: { maxRetries, baseDelayMs, maxDelayMs, attemptTimeoutMs } }  <- applied per model by the client
+//
+// Model references split on the first colon only, so "local:llama3.1:8b" is provider "local", model "llama3.1:8b".
+
+const { createGeminiProvider } = require('./providers/gemini');
+const { createOpenAiProvider } = require('./providers/openai');
+const { createMockProvider } = require('./providers/mock');
+
+const TASKS = ['chapters', 'captions', 'translation', 'assets', 'moments'];
+
+// Usable without being declared in the config
+const DEFAULT_PROVIDERS = {
+  gemini: { type: 'gemini', apiKeyEnv: 'GEMINI_API_KEY' },
+  openai: { type: 'openai', baseUrl: 'https://api.openai.com/v1', apiKeyEnv: 'OPENAI_API_KEY' },
+  mock: { type: 'mock', fixturesDir: 'config/ai-fixtures' },
+};
+
+const DEFAULT_TASKS = {
+  chapters: ['gemini:gemini-3-pro-preview'],
+  captions: ['gemini:gemini-3-pro-preview', 'gemini:gemini-2.5-flash'],
+  translation: ['gemini:gemini-2.5-flash', 'gemini:gemini-3-pro-preview'],
+  assets: ['gemini:gemini-3-pro-preview', 'gemini:gemini-2.5-flash'],
+  moments: ['gemini:gemini-3-pro-preview', 'gemini:gemini-2.5-flash'],
+};
+
+// Retries per model for retryable errors (rate limits, timeouts, 5xx, empty answers),
+// with exponential backoff from baseDelayMs up to maxDelayMs
+const DEFAULT_RETRY = { maxRetries: 2, baseDelayMs: 2000, maxDelayMs: 30000, attemptTimeoutMs: 300000 };
+
+const PROVIDER_FACTORIES = {
+  gemini: createGeminiProvider,
+  openai: createOpenAiProvider,
+  mock: createMockProvider,
+};
+
+const readRawConfig = () => {
+  if (process.env.AI_MODEL_CONFIG) {
+    try {
+      return { source: 'AI_MODEL_CONFIG', config: JSON.parse(process.env.AI_MODEL_CONFIG) };
+    } catch (e) {
+      console.error('[API] AI_MODEL_CONFIG is not valid JSON:', e.message);
+      return { source: 'AI_MODEL_CONFIG', config: {} };
+    }
+  }
+
+  try {
+    return { source: 'config/ai.json', config: require('../../config/ai.json') };
+  } catch (e) {
+    console.error('[API] Could not load config/ai.json:', e.message);
+    return { source: 'none', config: {} };
+  }
+};
+
+/**
+ * Splits "<provider>:<model>". Returns null when either half is missing.
+ */
+const parseModelRef = (ref) => {
+  const text = String(ref || '').trim();
+  const colon = text.indexOf(':');
+  if (colon <= 0 || colon === text.length - 1) return null;
+  return { provider: text.slice(0, colon), model: text.slice(colon + 1) };
+};
+
+/**
+ * Loads the config and drops model references whose provider is unknown.
+ * A task with no usable references falls back to its default chain.
+ */
+const loadAiConfig = () => {
+  const { source, config } = readRawConfig();
+  const providers = { ...DEFAULT_PROVIDERS, ...((config && config.providers) || {}) };
+  const configuredTasks = (config && config.tasks) || {};
+  const tasks = {};
+
+  TASKS.forEach(task => {
+    const refs = Array.isArray(configuredTasks[task]) ? configuredTasks[task] : [];
+    const usable = refs.filter(ref => {
+      const parsed = parseModelRef(ref);
+      const provider = parsed && providers[parsed.provider];
+      if (!provider || !PROVIDER_FACTORIES[provider.type]) {
+        console.warn(`[API] Model "${ref}" for task ${task} in ${source} has an unknown provider. Skipped.`);
+        return false;
+      }
+      return true;
+    });
+    tasks[task] = usable.length > 0 ? usable : DEFAULT_TASKS[task];
+  });
+
+  const retry = { ...DEFAULT_RETRY };
+  Object.keys(DEFAULT_RETRY).forEach(key => {
+    const value = config && config.retry && config.retry[key];
+    if (typeof value === 'number' && value >= 0) retry[key] = value;
+  });
+
+  return { source, providers, tasks, retry };
+};
+
+/**
+ * Resolves a model reference from a task chain to a provider instance.
+ * Returns null when the reference is not part of any configured chain.
+ */
+const resolveModel = (ref) => {
+  const { providers, tasks } = loadAiConfig();
+  const allowed = Object.values(tasks).some(chain => chain.includes(ref));
+  if (!allowed) return null;
+
+  const { provider: providerName, model } = parseModelRef(ref);
+  const settings = providers[providerName];
+  return { model, provider: PROVIDER_FACTORIES[settings.type](providerName, settings) };
+};
+
+module.exports = { TASKS, loadAiConfig, resolveModel, parseModelRef };
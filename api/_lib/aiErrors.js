@@ -0,0 +1,50 @@
+// Error codes shared by the AI providers and /api/generate, so the client can decide
+// whether to retry, fall back to the next model, or stop.
+//
+//   rate-limit       provider or our own limiter said slow down (retry after a delay)
+//   timeout          provider took too long (retry)
+//   server           provider 5xx or dropped connection (retry)
+//   empty            model finished without any text (retry)
+//   safety           prompt or answer blocked by a content filter (next model)
+//   truncated        answer cut off at the output token limit (next model)
+//   bad-request      provider rejected the request, e.g. unknown model (next model)
+//   config           provider key missing or rejected (next model)
+//   input-too-large  over GENERATE_MAX_CHARS (stop; every model gets the same input)
+
+/**
+ * An Error carrying one of the codes above in `aiCode` (`code` is left alone: Node uses it for ECONNRESET etc.).
+ * `retryAfterSeconds` is set for rate limits when known.
+ */
+const providerError = (aiCode, message, retryAfterSeconds = null) => {
+  const error = new Error(message);
+  error.aiCode = aiCode;
+  error.retryAfterSeconds = retryAfterSeconds;
+  return error;
+};
+
+/**
+ * Maps an upstream HTTP status to an error code.
+ */
+const codeForStatus = (status) => {
+  if (status === 429) return 'rate-limit';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status === 401 || status === 403) return 'config';
+  if (status >= 500) return 'server';
+  if (status >= 400) return 'bad-request';
+  return null;
+};
+
+/**
+ * Gives any error thrown by a provider an `aiCode`. Errors with no HTTP status (sockets, DNS) count as server errors.
+ */
+const classifyProviderError = (error) => {
+  if (error && error.aiCode) return error;
+
+  const message = (error && error.message) || String(error);
+  const statusCode = codeForStatus(Number(error && error.status));
+  if (statusCode) return providerError(statusCode, message);
+  if (error && (error.code === 'ETIMEDOUT' || error.name === 'TimeoutError')) return providerError('timeout', message);
+  return providerError('server', message);
+};
+
+module.exports = { providerError, codeForStatus, classifyProviderError };
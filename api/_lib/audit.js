@@ -0,0 +1,118 @@
+// Records who changed which video, what it looked like before, and what Bunny.net answered.
+// The "before" state of each entry doubles as the snapshot a later restore starts from.
+
+const crypto = require('crypto');
+const { getFromBunny } = require('./http');
+const { createAuditStore } = require('./auditStore');
+const { findLibrary } = require('./registry');
+
+/**
+ * Downloads a caption file from the library's pull zone. Bunny.net's API lists tracks but
+ * does not return their contents, so this only works when the registry sets `cdnHostname`.
+ */
+const fetchCaptionFile = async (cdnHostname, videoId, srclang) => {
+  try {
+    const response = await fetch(`https://${cdnHostname}/${encodeURIComponent(videoId)}/captions/${encodeURIComponent(srclang)}.vtt`);
+    return response.ok ? await response.text() : null;
+  } catch (error) {
+    console.warn(`[API] Could not download caption track ${srclang}:`, error.message);
+    return null;
+  }
+};
+
+/**
+ * Reads the video's current title, chapters, caption tracks, meta tags and moments,
+ * so the audit entry can show what a write replaced.
+ * Caption contents are included when the library has a `cdnHostname` (null otherwise).
+ * Never throws: an unreadable video is recorded as `previous: null`.
+ */
+const captureVideoState = async (libraryId, videoId, apiKey) => {
+  try {
+    const url = `https://video.bunnycdn.com/library/${libraryId}/videos/${encodeURIComponent(videoId)}`;
+    const upstream = await getFromBunny(url, apiKey);
+    if (!upstream.ok || !upstream.data) {
+      console.warn(`[API] Audit could not read video ${videoId} before the write (${upstream.status})`);
+      return null;
+    }
+
+    const video = upstream.data;
+    const library = findLibrary(libraryId);
+    const tracks = Array.isArray(video.captions) ? video.captions : [];
+
+    const captions = await Promise.all(tracks.map(async c => ({
+      srclang: c.srclang,
+      label: c.label || c.srclang,
+      content: library && library.cdnHostname ? await fetchCaptionFile(library.cdnHostname, videoId, c.srclang) : null,
+    })));
+
+    return {
+      title: video.title || '',
+      chapters: Array.isArray(video.chapters) ? video.chapters : [],
+      captions,
+      metaTags: Array.isArray(video.metaTags) ? video.metaTags : [],
+      moments: Array.isArray(video.moments) ? video.moments : [],
+    };
+  } catch (error) {
+    console.warn('[API] Audit could not read video before the write:', error.message);
+    return null;
+  }
+};
+
+/**
+ * Appends an audit entry. Never throws: a broken audit store must not turn a successful
+ * Bunny.net update into an error for the user.
+ */
+const recordWrite = async ({ user, action, libraryId, videoId, previous, payload, upstream, restoredFrom }) => {
+  const entry = {
+    id: crypto.randomUUID(),
+    timestamp: new Date().toISOString(),
+    username: user.username,
+    role: user.role,
+    action,
+    libraryId,
+    videoId,
+    videoTitle: previous ? previous.title : null,
+    previous,
+    payload,
+    upstreamStatus: upstream.status,
+    success: upstream.ok,
+    upstreamError: upstream.ok ? null : upstream.text,
+    restoredFrom: restoredFrom || null,
+  };
+
+  try {
+    await createAuditStore().append(entry);
+  } catch (error) {
+    console.error('[API] Failed to write audit entry:', error);
+  }
+};
+
+const isProductionDeploy = () =>
+  process.env.NODE_ENV === 'production' || process.env.VERCEL_ENV === 'production';
+
+/**
+ * Why restores are refused, or null. In production an ephemeral store loses snapshots
+ * unpredictably, so a restore could not be checked against the entry it names.
+ */
+const restoreBlockedReason = (store) =>
+  store.ephemeral && isProductionDeploy()
+    ? 'Restores are turned off: the audit log is kept in the temp dir, which does not persist here. Set AUDIT_LOG_PATH to persistent storage.'
+    : null;
+
+/**
+ * Checks that a restore points at an audit entry for the same video. Returns an error message, or null when valid.
+ */
+const checkRestoreSource = async (restoredFrom, libraryId, videoId) => {
+  const store = createAuditStore();
+  const blockedReason = restoreBlockedReason(store);
+  if (blockedReason) return blockedReason;
+
+  const entry = await store.get(String(restoredFrom));
+  if (!entry) return `Snapshot ${restoredFrom} was not found in the audit log.`;
+  if (entry.libraryId !== libraryId || entry.videoId !== videoId) {
+    return `Snapshot ${restoredFrom} belongs to a different video.`;
+  }
+  return null;
+};
+
+module.exports = { captureVideoState, recordWrite, checkRestoreSource, restoreBlockedReason };
@@ -0,0 +1,80 @@
+// Audit log storage. Routes only use createAuditStore(); add another store here to keep the log elsewhere.
+//
+// A store implements:
+//   append(entry)                                   -> Promise<void>
+//   list({ libraryIds, libraryId, videoId, limit }) -> Promise<entry[]> (newest first)
+//   get(id)                                         -> Promise<entry | null>
+//   ephemeral                                       -> true when entries may vanish (e.g. on a cold start)
+//
+// CONFIGURATION:
+// AUDIT_STORE     - "file" (default)
+// AUDIT_LOG_PATH  - JSONL file for the file store. Defaults to the OS temp dir, which is
+//                   NOT persistent on Vercel; point it at a persistent disk when self-hosting.
+//                   Without it, production deployments refuse restores (see audit.js).
+
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const matchesFilter = (entry, { libraryIds, libraryId, videoId }) =>
+  (!libraryIds || libraryIds.includes(entry.libraryId)) &&
+  (!libraryId || entry.libraryId === libraryId) &&
+  (!videoId || entry.videoId === videoId);
+
+/**
+ * Appends one JSON line per entry. Lines that fail to parse (e.g. a write cut short) are skipped on read.
+ */
+const createFileStore = (filePath, ephemeral) => {
+  const readAll = async () => {
+    let text = '';
+    try {
+      text = await fs.promises.readFile(filePath, 'utf8');
+    } catch (e) {
+      if (e.code === 'ENOENT') return [];
+      throw e;
+    }
+
+    const entries = [];
+    text.split('\n').forEach(line => {
+      if (!line.trim()) return;
+      try {
+        entries.push(JSON.parse(line));
+      } catch (e) {
+        console.warn('[API] Skipping unreadable audit line');
+      }
+    });
+    return entries;
+  };
+
+  return {
+    ephemeral,
+
+    append: async (entry) => {
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.promises.appendFile(filePath, JSON.stringify(entry) + '\n', 'utf8');
+    },
+
+    list: async (filter) =>
+      (await readAll())
+        .filter(entry => matchesFilter(entry, filter))
+        .reverse()
+        .slice(0, filter.limit),
+
+    get: async (id) => (await readAll()).find(entry => entry.id === id) || null,
+  };
+};
+
+const createAuditStore = () => {
+  const kind = process.env.AUDIT_STORE || 'file';
+
+  if (kind === 'file') {
+    // The temp dir is per instance on Vercel and wiped on cold starts
+    return process.env.AUDIT_LOG_PATH
+      ? createFileStore(process.env.AUDIT_LOG_PATH, false)
+      : createFileStore(path.join(os.tmpdir(), 'bunny-audit.jsonl'), true);
+  }
+
+  throw new Error(`Unknown AUDIT_STORE "${kind}".`);
+};
+
+module.exports = { createAuditStore };
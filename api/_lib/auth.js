@@ -0,0 +1,145 @@
+// Authentication and per-library permissions for the API routes.
+//
+// CONFIGURATION (Vercel env vars):
+// AUTH_SECRET  - random string used to sign session tokens (HMAC-SHA256)
+// APP_USERS    - JSON array of users:
+//   [{ "username": "ana", "passwordHash": "scrypt$<saltHex>$<hashHex>",
+//      "role": "editor", "libraries": ["239218"] }]
+//
+// ROLES:
+// admin  - every library, read + write, sees server debug details
+// editor - read + write on the listed libraries ("*" = all)
+// viewer - read only on the listed libraries
+
+const crypto = require('crypto');
+
+const TOKEN_TTL_SECONDS = 12 * 60 * 60;
+const ROLES = ['admin', 'editor', 'viewer'];
+
+const base64url = (input) => Buffer.from(input).toString('base64url');
+
+const sign = (payload, secret) => crypto.createHmac('sha256', secret).update(payload).digest('base64url');
+
+const safeEqual = (a, b) => {
+  const left = Buffer.from(String(a));
+  const right = Buffer.from(String(b));
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+/**
+ * Loads the configured users. Entries without a username, password hash or known role are skipped.
+ */
+const loadUsers = () => {
+  let raw = [];
+  try {
+    raw = JSON.parse(process.env.APP_USERS || '[]');
+  } catch (e) {
+    console.error('[API] APP_USERS is not valid JSON:', e.message);
+  }
+
+  return (Array.isArray(raw) ? raw : [])
+    .filter(user => user && user.username && user.passwordHash && ROLES.includes(user.role))
+    .map(user => ({
+      username: String(user.username),
+      passwordHash: String(user.passwordHash),
+      role: user.role,
+      libraries: Array.isArray(user.libraries) ? user.libraries.map(String) : [],
+    }));
+};
+
+const isConfigured = () => !!process.env.AUTH_SECRET && loadUsers().length > 0;
+
+/**
+ * Checks a password against a "scrypt$<saltHex>$<hashHex>" hash.
+ */
+const verifyPassword = (password, passwordHash) => {
+  const [scheme, saltHex, hashHex] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) return false;
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = crypto.scryptSync(String(password), Buffer.from(saltHex, 'hex'), expected.length);
+  return expected.length > 0 && crypto.timingSafeEqual(expected, actual);
+};
+
+/**
+ * Returns the public view of a user (what the client may see).
+ */
+const toSessionUser = (user) => ({ username: user.username, role: user.role, libraries: user.libraries });
+
+/**
+ * Verifies a username/password pair and issues a signed token. Returns null on bad credentials.
+ */
+const login = (username, password) => {
+  const user = loadUsers().find(u => u.username === String(username || ''));
+  if (!user || !verifyPassword(password || '', user.passwordHash)) return null;
+
+  const expiresAt = Math.floor(Date.now() / 1000) + TOKEN_TTL_SECONDS;
+  const payload = base64url(JSON.stringify({ sub: user.username, exp: expiresAt }));
+  return { token: `${payload}.${sign(payload, process.env.AUTH_SECRET)}`, expiresAt, user: toSessionUser(user) };
+};
+
+/**
+ * Reads the bearer token and returns the current user, or null when missing, forged or expired.
+ * The user is re-read from APP_USERS, so removing a user or a library takes effect immediately.
+ */
+const authenticate = (req) => {
+  const header = String((req.headers && req.headers.authorization) || '');
+  const token = header.startsWith('Bearer ') ? header.slice(7).trim() : '';
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature || !process.env.AUTH_SECRET) return null;
+  if (!safeEqual(signature, sign(payload, process.env.AUTH_SECRET))) return null;
+
+  let claims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch (e) {
+    return null;
+  }
+  if (!claims || typeof claims.exp !== 'number' || claims.exp < Date.now() / 1000) return null;
+
+  const user = loadUsers().find(u => u.username === claims.sub);
+  return user ? toSessionUser(user) : null;
+};
+
+/**
+ * Whether the user may read (or, with write = true, modify) videos in the library.
+ */
+const canAccessLibrary = (user, libraryId, write) => {
+  if (user.role === 'admin') return true;
+  if (write && user.role !== 'editor') return false;
+  return user.libraries.includes('*') || user.libraries.includes(String(libraryId).trim());
+};
+
+/**
+ * Sends 401 unless the request carries a valid token. Returns the user, or null if a response was sent.
+ */
+const requireUser = (req, res) => {
+  if (!isConfigured()) {
+    res.status(500).json({ error: 'Server Error: Authentication is not configured. Set AUTH_SECRET and APP_USERS.' });
+    return null;
+  }
+
+  const user = authenticate(req);
+  if (!user) {
+    res.status(401).json({ error: 'Please sign in again.' });
+    return null;
+  }
+  return user;
+};
+
+/**
+ * Sends 401/403 unless the signed-in user may access the library. Returns the user, or null if a response was sent.
+ */
+const requireLibraryAccess = (req, res, libraryId, write) => {
+  const user = requireUser(req, res);
+  if (!user) return null;
+
+  if (!canAccessLibrary(user, libraryId, write)) {
+    console.warn(`[API] Denied ${write ? 'write' : 'read'} on library ${libraryId} for ${user.username} (${user.role})`);
+    res.status(403).json({ error: `You do not have ${write ? 'write' : 'read'} access to library ${libraryId}.` });
+    return null;
+  }
+  return user;
+};
+
+module.exports = { isConfigured, login, authenticate, canAccessLibrary, requireUser, requireLibraryAccess };
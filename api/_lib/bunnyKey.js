@@ -0,0 +1,70 @@
+// Resolves the Bunny.net Stream API key for a library from environment variables.
+
+const { findLibrary } = require('./registry');
+
+/**
+ * STRATEGY (exact matches only, so one library's key is never used for another):
+ * A. Registry: the env var named by the library's `keyEnv`
+ * B. Specific Match: BUNNY_KEY_123456
+ * C. Global Fallback: BUNNY_API_KEY
+ */
+const resolveLibraryKey = (targetLibId) => {
+  let apiKey = null;
+  let usedEnvKey = null;
+
+  // A. Registry Lookup
+  const library = findLibrary(targetLibId);
+  if (library && process.env[library.keyEnv]) {
+    apiKey = process.env[library.keyEnv];
+    usedEnvKey = library.keyEnv;
+  }
+
+  // B. Direct Lookup (libraries not in the registry yet)
+  const directKey = `BUNNY_KEY_${targetLibId}`;
+  if (!apiKey && process.env[directKey]) {
+    apiKey = process.env[directKey];
+    usedEnvKey = directKey;
+  }
+
+  // C. Global Fallback (if specific not found)
+  if (!apiKey && process.env.BUNNY_API_KEY) {
+     apiKey = process.env.BUNNY_API_KEY;
+     usedEnvKey = "BUNNY_API_KEY (Global Fallback)";
+  }
+
+  console.log(`[API] Key Lookup for ID ${targetLibId}. Found? ${!!apiKey} via ${usedEnvKey || 'none'}`);
+
+  return { apiKey, usedEnvKey };
+};
+
+/**
+ * Sends the standard "no key configured" response.
+ * Env var names are server internals, so only admins get the debug list.
+ */
+const sendMissingKey = (res, targetLibId, user) => {
+  const isAdmin = !!user && user.role === 'admin';
+
+  const library = findLibrary(targetLibId);
+  const checked = library && library.keyEnv !== `BUNNY_KEY_${targetLibId}`
+    ? `${library.keyEnv}, BUNNY_KEY_${targetLibId}`
+    : `BUNNY_KEY_${targetLibId}`;
+
+  if (!isAdmin) {
+    return res.status(500).json({
+      error: `Server Error: No API Key found for Library ID ${targetLibId}. Ask an admin to configure it.`
+    });
+  }
+
+  // DEBUG HELP: List available BUNNY keys (names only) so user can check for typos/deployment issues
+  const visibleKeys = Object.keys(process.env)
+    .filter(k => k.startsWith('BUNNY_'))
+    .join(', ');
+
+  return res.status(500).json({
+    error: `Server Error: No API Key found for Library ID ${targetLibId}.`,
+    details: `Checked for ${checked} or BUNNY_API_KEY.`,
+    availableEnvVars: visibleKeys || "None detected starting with BUNNY_"
+  });
+};
+
+module.exports = { resolveLibraryKey, sendMissingKey };
@@ -0,0 +1,146 @@
+// Shared helpers for the Vercel Serverless Functions in /api.
+// Files under /api/_lib are NOT exposed as routes (underscore prefix).
+
+/**
+ * Applies the CORS headers used by every route and answers preflight requests.
+ * Cross-origin callers are only allowed when listed in ALLOWED_ORIGINS (comma-separated);
+ * the app itself is served from the same origin and needs no entry.
+ * Returns true when the request was an OPTIONS preflight and has been handled.
+ */
+const applyCors = (req, res) => {
+  const origin = req.headers && req.headers.origin;
+  const allowed = String(process.env.ALLOWED_ORIGINS || '')
+    .split(',')
+    .map(o => o.trim())
+    .filter(Boolean);
+
+  if (origin && allowed.includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Vary', 'Origin');
+  }
+  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,PATCH,DELETE,POST,PUT');
+  res.setHeader(
+    'Access-Control-Allow-Headers',
+    'Authorization, X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version'
+  );
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return true;
+  }
+  return false;
+};
+
+// Bunny.net library IDs are numeric; video IDs are GUIDs
+const LIBRARY_ID_PATTERN = /^\d+$/;
+const VIDEO_GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether the IDs can be placed in a Bunny.net URL as they are.
+ * Anything else could point the request at another library (e.g. "../../222/videos/...").
+ */
+const isLibraryId = (value) => LIBRARY_ID_PATTERN.test(String(value));
+const isVideoGuid = (value) => VIDEO_GUID_PATTERN.test(String(value));
+
+/**
+ * Robust Body Parsing.
+ * Sometimes Vercel passes body as a string, sometimes as an object depending on headers.
+ * Returns null (after sending a 400) if the body is not valid JSON.
+ */
+const parseJsonBody = (req, res) => {
+  let body = req.body;
+
+  if (typeof body === 'string') {
+    try {
+      body = JSON.parse(body);
+    } catch (e) {
+      console.error("[API] Failed to parse body string:", e);
+      res.status(400).json({ error: "Invalid JSON body" });
+      return null;
+    }
+  }
+
+  return body || {};
+};
+
+/**
+ * Sends a JSON payload to Bunny.net.
+ * Resolves to { ok, status, data, text } where `data` is the parsed JSON (or null).
+ */
+const postToBunny = async (url, apiKey, payload) => {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'AccessKey': apiKey,
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  });
+
+  const text = await response.text();
+  let data = null;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    // Leave data as null; callers report `text` instead
+  }
+
+  return { ok: response.ok, status: response.status, data, text };
+};
+
+/**
+ * Relays the result of a Bunny.net write to the client.
+ */
+const relayBunnyResult = (res, upstream) => {
+  if (!upstream.ok) {
+    console.error(`[API] Bunny Upstream Error (${upstream.status}):`, upstream.text);
+    return res.status(upstream.status).json({
+      error: `Bunny.net Refused (Status ${upstream.status})`,
+      details: upstream.text
+    });
+  }
+
+  console.log("[API] Success");
+
+  // Fall back to the raw text when the response was not JSON
+  if (upstream.data === null) {
+    return res.status(200).json({ success: true, message: "Updated, but response was not JSON", raw: upstream.text });
+  }
+  return res.status(200).json({ success: true, data: upstream.data });
+};
+
+/**
+ * Reads a resource from the Bunny.net API.
+ * Resolves to { ok, status, data, text } where `data` is the parsed JSON (or null).
+ */
+const getFromBunny = async (url, apiKey) => {
+  const response = await fetch(url, {
+    method: 'GET',
+    headers: {
+      'AccessKey': apiKey,
+      'Accept': 'application/json',
+    },
+  });
+
+  const text = await response.text();
+  let data = null;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    // Leave data as null; callers report `text` instead
+  }
+
+  return { ok: response.ok, status: response.status, data, text };
+};
+
+/**
+ * The caller's IP address. Vercel puts the original client first in x-forwarded-for.
+ */
+const clientIp = (req) => {
+  const headers = req.headers || {};
+  const forwarded = String(headers['x-forwarded-for'] || '').split(',')[0].trim();
+  return forwarded || String(headers['x-real-ip'] || '').trim() || (req.socket && req.socket.remoteAddress) || 'unknown';
+};
+
+module.exports = { applyCors, clientIp, isLibraryId, isVideoGuid, parseJsonBody, postToBunny, relayBunnyResult, getFromBunny };
@@ -0,0 +1,51 @@
+// Gemini provider, using the @google/genai SDK with a server-side key.
+
+const { GoogleGenAI } = require('@google/genai');
+const { providerError } = require('../aiErrors');
+
+// Finish reasons that mean a content filter stopped the answer
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
+
+/**
+ * settings: { apiKeyEnv }  (defaults to GEMINI_API_KEY)
+ */
+const createGeminiProvider = (name, settings) => {
+  const apiKeyEnv = settings.apiKeyEnv || 'GEMINI_API_KEY';
+
+  return {
+    name,
+
+    missingConfig: () => (process.env[apiKeyEnv] ? null : `${apiKeyEnv} is not configured.`),
+
+    /**
+     * Yields the response text chunk by chunk.
+     */
+    async *streamText({ model, systemInstruction, contents, options, signal }) {
+      const ai = new GoogleGenAI({ apiKey: process.env[apiKeyEnv] });
+      const config = { systemInstruction, abortSignal: signal };
+      if (options.temperature !== undefined) config.temperature = options.temperature;
+      if (options.maxOutputTokens !== undefined) config.maxOutputTokens = options.maxOutputTokens;
+      if (options.json) config.responseMimeType = 'application/json';
+      if (options.schema) config.responseJsonSchema = options.schema;
+
+      const stream = await ai.models.generateContentStream({ model, contents, config });
+      for await (const chunk of stream) {
+        const blockReason = chunk.promptFeedback && chunk.promptFeedback.blockReason;
+        if (blockReason) {
+          throw providerError('safety', `Prompt blocked by Gemini (${blockReason}).`);
+        }
+        const finishReason = chunk.candidates && chunk.candidates[0] && chunk.candidates[0].finishReason;
+        if (BLOCKED_FINISH_REASONS.includes(finishReason)) {
+          throw providerError('safety', `Answer blocked by Gemini (${finishReason}).`);
+        }
+        // Thinking models spend output tokens on reasoning, so a cut-off answer can still look valid
+        if (finishReason === 'MAX_TOKENS') {
+          throw providerError('truncated', 'Answer cut off by Gemini at the output token limit (MAX_TOKENS).');
+        }
+        if (chunk.text) yield chunk.text;
+      }
+    },
+  };
+};
+
+module.exports = { createGeminiProvider };
@@ -0,0 +1,45 @@
+// Deterministic offline provider for local testing. No network, no key.
+//
+// Models:
+//   "echo"       -> returns the input unchanged (valid SRT for caption cleanup)
+//   "<file>"     -> returns the contents of <fixturesDir>/<file>, e.g. "chapters.json"
+
+const fs = require('fs');
+const path = require('path');
+const { providerError } = require('../aiErrors');
+
+// Fixture text is yielded in pieces of this size so the streaming path is exercised too
+const CHUNK_SIZE = 200;
+
+/**
+ * settings: { fixturesDir }  (relative to the project root; defaults to config/ai-fixtures)
+ */
+const createMockProvider = (name, settings) => {
+  const fixturesDir = path.resolve(process.cwd(), settings.fixturesDir || 'config/ai-fixtures');
+
+  const readFixture = (model) => {
+    const file = path.resolve(fixturesDir, model);
+    if (path.dirname(file) !== fixturesDir) {
+      throw providerError('bad-request', `Mock fixture "${model}" must be a file name inside ${settings.fixturesDir || 'config/ai-fixtures'}.`);
+    }
+    if (!fs.existsSync(file)) {
+      throw providerError('bad-request', `Mock fixture "${model}" not found in ${fixturesDir}.`);
+    }
+    return fs.readFileSync(file, 'utf8');
+  };
+
+  return {
+    name,
+
+    missingConfig: () => null,
+
+    async *streamText({ model, contents }) {
+      const text = model === 'echo' ? contents : readFixture(model);
+      for (let i = 0; i < text.length; i += CHUNK_SIZE) {
+        yield text.slice(i, i + CHUNK_SIZE);
+      }
+    },
+  };
+};
+
+module.exports = { createMockProvider };
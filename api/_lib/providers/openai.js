@@ -0,0 +1,81 @@
+// OpenAI-compatible provider: any server implementing POST /chat/completions with
+// streaming (OpenAI, OpenRouter, Ollama, llama.cpp server, vLLM, LM Studio...).
+
+const { providerError, codeForStatus } = require('../aiErrors');
+
+/**
+ * settings: { baseUrl, apiKeyEnv }  (apiKeyEnv may be omitted for local servers without auth)
+ */
+const createOpenAiProvider = (name, settings) => {
+  const baseUrl = String(settings.baseUrl || '').replace(/\/+$/, '');
+  const apiKeyEnv = settings.apiKeyEnv || null;
+
+  return {
+    name,
+
+    missingConfig: () => {
+      if (!baseUrl) return `Provider "${name}" has no baseUrl.`;
+      if (apiKeyEnv && !process.env[apiKeyEnv]) return `${apiKeyEnv} is not configured.`;
+      return null;
+    },
+
+    /**
+     * Yields the response text chunk by chunk, parsed from the server-sent event stream.
+     */
+    async *streamText({ model, systemInstruction, contents, options, signal }) {
+      const body = {
+        model,
+        stream: true,
+        messages: [
+          { role: 'system', content: systemInstruction },
+          { role: 'user', content: contents },
+        ],
+      };
+      if (options.temperature !== undefined) body.temperature = options.temperature;
+      if (options.maxOutputTokens !== undefined) body.max_tokens = options.maxOutputTokens;
+      if (options.schema) {
+        body.response_format = { type: 'json_schema', json_schema: { name: 'response', schema: options.schema } };
+      } else if (options.json) {
+        body.response_format = { type: 'json_object' };
+      }
+
+      const headers = { 'Content-Type': 'application/json' };
+      if (apiKeyEnv) headers.Authorization = `Bearer ${process.env[apiKeyEnv]}`;
+
+      const response = await fetch(`${baseUrl}/chat/completions`, { method: 'POST', headers, body: JSON.stringify(body), signal });
+      if (!response.ok) {
+        const text = await response.text();
+        const retryAfter = Number(response.headers.get('retry-after')) || null;
+        throw providerError(codeForStatus(response.status) || 'server', `${name} returned ${response.status}: ${text.slice(0, 300)}`, retryAfter);
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for await (const bytes of response.body) {
+        buffer += decoder.decode(bytes, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop();
+
+        for (const line of lines) {
+          const data = line.trim().replace(/^data:\s*/, '');
+          if (!line.trim().startsWith('data:') || !data) continue;
+          if (data === '[DONE]') return;
+
+          const event = JSON.parse(data);
+          if (event.error) throw providerError('server', event.error.message || JSON.stringify(event.error));
+          const choice = (event.choices && event.choices[0]) || {};
+          if (choice.finish_reason === 'content_filter') {
+            throw providerError('safety', `Answer blocked by ${name}'s content filter.`);
+          }
+          if (choice.finish_reason === 'length') {
+            throw providerError('truncated', `Answer cut off by ${name} at the output token limit.`);
+          }
+          const text = choice.delta && choice.delta.content;
+          if (text) yield text;
+        }
+      }
+    },
+  };
+};
+
+module.exports = { createOpenAiProvider };
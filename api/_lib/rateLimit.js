@@ -0,0 +1,37 @@
+// Per-key request limits (per user for the AI routes, per IP and username for sign-in).
+// Counts live in memory, so each serverless instance enforces the limit on its own;
+// that is enough to stop one runaway browser tab, not a determined abuser.
+
+const WINDOW_MS = 60 * 1000;
+
+const hits = new Map(); // key -> timestamps (ms) inside the current window
+
+// Sign-in keys include client IPs, so keys whose window has passed are dropped once the map grows
+const SWEEP_THRESHOLD = 1000;
+
+const sweep = (now) => {
+  for (const [key, times] of hits) {
+    if (times.every(time => now - time >= WINDOW_MS)) hits.delete(key);
+  }
+};
+
+/**
+ * Records a request for `key` and reports whether it is within `limit` requests per minute.
+ * Returns { allowed, retryAfterSeconds }.
+ */
+const takeToken = (key, limit) => {
+  const now = Date.now();
+  if (hits.size >= SWEEP_THRESHOLD) sweep(now);
+  const recent = (hits.get(key) || []).filter(time => now - time < WINDOW_MS);
+
+  if (recent.length >= limit) {
+    hits.set(key, recent);
+    return { allowed: false, retryAfterSeconds: Math.ceil((recent[0] + WINDOW_MS - now) / 1000) };
+  }
+
+  recent.push(now);
+  hits.set(key, recent);
+  return { allowed: true, retryAfterSeconds: 0 };
+};
+
+module.exports = { takeToken };
@@ -0,0 +1,108 @@
+// Library registry: which Bunny.net libraries the processor can deploy to, and how.
+//
+// SOURCE (first one found wins):
+// A. BUNNY_LIBRARY_REGISTRY env var containing the JSON array (no redeploy of code needed)
+// B. config/libraries.json in the project root
+//
+// Entry shape:
+// { name, libraryId, keyEnv, captionLanguages: [{ srclang, label }],
+//   chapterPolicy: { minChapterSeconds, maxChapters, blockOnWarnings },
+//   chapterTitles: { languages: [{ srclang, label }], bunnyLanguage },  <- first language is the one chapters are
+//                  generated in; the others get translated titles; bunnyLanguage is the one pushed to Bunny
+//   cdnHostname }  <- optional pull zone (e.g. "vz-abc123.b-cdn.net"), lets snapshots keep caption files
+
+const DEFAULT_CAPTION_LANGUAGES = [{ srclang: 'en', label: 'English' }];
+const DEFAULT_CHAPTER_POLICY = { minChapterSeconds: 0, maxChapters: null, blockOnWarnings: false };
+
+const readRawRegistry = () => {
+  if (process.env.BUNNY_LIBRARY_REGISTRY) {
+    try {
+      return { source: 'BUNNY_LIBRARY_REGISTRY', entries: JSON.parse(process.env.BUNNY_LIBRARY_REGISTRY) };
+    } catch (e) {
+      console.error('[API] BUNNY_LIBRARY_REGISTRY is not valid JSON:', e.message);
+      return { source: 'BUNNY_LIBRARY_REGISTRY', entries: [] };
+    }
+  }
+
+  try {
+    return { source: 'config/libraries.json', entries: require('../../config/libraries.json') };
+  } catch (e) {
+    console.error('[API] Could not load config/libraries.json:', e.message);
+    return { source: 'none', entries: [] };
+  }
+};
+
+/**
+ * Title languages default to the library's first caption language. An unknown bunnyLanguage falls back to the first.
+ */
+const normalizeChapterTitles = (chapterTitles, captionLanguages) => {
+  const configured = chapterTitles && Array.isArray(chapterTitles.languages)
+    ? chapterTitles.languages
+        .filter(lang => lang && lang.srclang)
+        .map(lang => ({ srclang: String(lang.srclang), label: String(lang.label || lang.srclang) }))
+    : [];
+  const languages = configured.length > 0 ? configured : [captionLanguages[0]];
+  const requested = chapterTitles && String(chapterTitles.bunnyLanguage || '');
+  const bunnyLanguage = languages.some(lang => lang.srclang === requested) ? requested : languages[0].srclang;
+  return { languages, bunnyLanguage };
+};
+
+/**
+ * Fills defaults and rejects entries that cannot be used. Returns null for an invalid entry.
+ */
+const normalizeEntry = (entry) => {
+  if (!entry || typeof entry !== 'object') return null;
+
+  const name = String(entry.name || '').trim();
+  const libraryId = String(entry.libraryId || '').trim();
+  if (!name || !/^\d+$/.test(libraryId)) return null;
+
+  const keyEnv = String(entry.keyEnv || `BUNNY_KEY_${libraryId}`).trim();
+  const captionLanguages = Array.isArray(entry.captionLanguages) && entry.captionLanguages.length > 0
+    ? entry.captionLanguages
+        .filter(lang => lang && lang.srclang)
+        .map(lang => ({ srclang: String(lang.srclang), label: String(lang.label || lang.srclang) }))
+    : DEFAULT_CAPTION_LANGUAGES;
+
+  return {
+    name,
+    libraryId,
+    keyEnv,
+    captionLanguages,
+    chapterPolicy: { ...DEFAULT_CHAPTER_POLICY, ...(entry.chapterPolicy || {}) },
+    chapterTitles: normalizeChapterTitles(entry.chapterTitles, captionLanguages),
+    cdnHostname: entry.cdnHostname ? String(entry.cdnHostname).trim().replace(/^https?:\/\//, '').replace(/\/+$/, '') : null,
+  };
+};
+
+/**
+ * Loads and validates the registry. Invalid and duplicate entries are skipped with a warning.
+ */
+const loadRegistry = () => {
+  const { source, entries } = readRawRegistry();
+  const list = Array.isArray(entries) ? entries : [];
+  const libraries = [];
+
+  list.forEach((raw, index) => {
+    const entry = normalizeEntry(raw);
+    if (!entry) {
+      console.warn(`[API] Registry entry ${index} in ${source} is missing a name or numeric libraryId. Skipped.`);
+      return;
+    }
+    if (libraries.some(lib => lib.libraryId === entry.libraryId)) {
+      console.warn(`[API] Registry entry ${index} in ${source} repeats library ${entry.libraryId}. Skipped.`);
+      return;
+    }
+    libraries.push(entry);
+  });
+
+  return { source, libraries };
+};
+
+/**
+ * Finds a registry entry by its exact library ID.
+ */
+const findLibrary = (libraryId) =>
+  loadRegistry().libraries.find(lib => lib.libraryId === String(libraryId).trim()) || null;
+
+module.exports = { loadRegistry, findLibrary };
@@ -0,0 +1,59 @@
+// Vercel Serverless Function
+// LOCATION: /api/audit.js (MUST BE AT PROJECT ROOT)
+// Lists audit entries (newest first) for the libraries the signed-in user may read.
+
+const { applyCors, isLibraryId, isVideoGuid } = require('./_lib/http');
+const { requireUser, requireLibraryAccess } = require('./_lib/auth');
+const { createAuditStore } = require('./_lib/auditStore');
+const { restoreBlockedReason } = require('./_lib/audit');
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+module.exports = async (req, res) => {
+  // Enable CORS
+  if (applyCors(req, res)) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    const { libraryId, videoId, limit } = req.query || {};
+    const targetLibId = String(libraryId || '').trim();
+    const targetVideoId = String(videoId || '').trim();
+    const parsedLimit = parseInt(String(limit || ''), 10);
+    const maxEntries = Number.isFinite(parsedLimit) && parsedLimit > 0 ? Math.min(parsedLimit, MAX_LIMIT) : DEFAULT_LIMIT;
+
+    if ((targetLibId && !isLibraryId(targetLibId)) || (targetVideoId && !isVideoGuid(targetVideoId))) {
+      return res.status(400).json({ error: 'Invalid libraryId or videoId: expected a numeric library ID and a video GUID.' });
+    }
+
+    const user = targetLibId ? requireLibraryAccess(req, res, targetLibId, false) : requireUser(req, res);
+    if (!user) return;
+
+    // Without a library filter, limit the results to the user's own libraries
+    const seesAll = user.role === 'admin' || user.libraries.includes('*');
+
+    console.log(`[API] Audit Log - ${user.username}, Lib: ${targetLibId || 'any'}, Video: ${targetVideoId || 'any'}`);
+
+    const store = createAuditStore();
+    const entries = await store.list({
+      libraryIds: seesAll ? null : user.libraries,
+      libraryId: targetLibId || null,
+      videoId: targetVideoId || null,
+      limit: maxEntries,
+    });
+
+    return res.status(200).json({
+      success: true,
+      entries,
+      ephemeral: store.ephemeral,
+      restoreBlockedReason: restoreBlockedReason(store),
+    });
+
+  } catch (error) {
+    console.error('[API] Critical Server Error:', error);
+    return res.status(500).json({ error: `Internal Server Error: ${error.message}` });
+  }
+};
@@ -1,20 +1,51 @@
 // Vercel Serverless Function
 // LOCATION: /api/bunny.js (MUST BE AT PROJECT ROOT)
+// Updates a video's chapters, and optionally its title, meta tags (description) and moments, in one write.
+
+const { applyCors, isLibraryId, isVideoGuid, parseJsonBody, postToBunny, relayBunnyResult } = require('./_lib/http');
+const { resolveLibraryKey, sendMissingKey } = require('./_lib/bunnyKey');
+const { requireLibraryAccess } = require('./_lib/auth');
+const { captureVideoState, recordWrite, checkRestoreSource } = require('./_lib/audit');
+
+const isText = (value) => typeof value === 'string';
+
+/**
+ * Copies the video fields the processor may change into the Bunny.net payload.
+ * Returns { payload } or { error } when a field has the wrong shape; omitted fields stay untouched on Bunny.
+ */
+const buildPayload = ({ chapters, title, metaTags, moments }) => {
+  const payload = {};
+
+  if (chapters !== undefined) {
+    if (!Array.isArray(chapters)) return { error: 'chapters must be an array.' };
+    payload.chapters = chapters;
+  }
+
+  if (title !== undefined) {
+    if (!isText(title) || !title.trim()) return { error: 'title must be a non-empty string.' };
+    payload.title = title.trim();
+  }
+
+  if (metaTags !== undefined) {
+    if (!Array.isArray(metaTags) || !metaTags.every(t => t && isText(t.property) && t.property.trim() && isText(t.value))) {
+      return { error: 'metaTags must be an array of { property, value } strings.' };
+    }
+    payload.metaTags = metaTags.map(t => ({ property: t.property.trim(), value: t.value }));
+  }
+
+  if (moments !== undefined) {
+    if (!Array.isArray(moments) || !moments.every(m => m && isText(m.label) && m.label.trim() && Number.isFinite(m.timestamp) && m.timestamp >= 0)) {
+      return { error: 'moments must be an array of { label, timestamp } with timestamp in seconds.' };
+    }
+    payload.moments = moments.map(m => ({ label: m.label.trim(), timestamp: Math.round(m.timestamp) }));
+  }
+
+  return { payload };
+};
 
 module.exports = async (req, res) => {
   // Enable CORS
-  res.setHeader('Access-Control-Allow-Credentials', true);
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET,OPTIONS,PATCH,DELETE,POST,PUT');
-  res.setHeader(
-    'Access-Control-Allow-Headers',
-    'X-CSRF-Token, X-Requested-With, Accept, Accept-Version, Content-Length, Content-MD5, Content-Type, Date, X-Api-Version'
-  );
-
-  if (req.method === 'OPTIONS') {
-    res.status(200).end();
-    return;
-  }
+  if (applyCors(req, res)) return;
 
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method Not Allowed' });
@@ -22,113 +53,61 @@ module.exports = async (req, res) => {
 
   try {
     // 1. Robust Body Parsing
-    let body = req.body;
-    
-    // Sometimes Vercel passes body as a string, sometimes as an object depending on headers
-    if (typeof body === 'string') {
-      try {
-        body = JSON.parse(body);
-      } catch (e) {
-        console.error("[API] Failed to parse body string:", e);
-        return res.status(400).json({ error: "Invalid JSON body" });
-      }
-    }
+    const body = parseJsonBody(req, res);
+    if (!body) return;
 
-    const { libraryId, videoId, chapters } = body || {};
+    const { libraryId, videoId, restoredFrom } = body;
     // Ensure libraryId is a string for comparison
     const targetLibId = String(libraryId || '').trim();
+    const targetVideoId = String(videoId || '').trim();
 
-    console.log(`[API] Processing Request - Lib: ${targetLibId}, Video: ${videoId}`);
+    console.log(`[API] Processing Request - Lib: ${targetLibId}, Video: ${targetVideoId}`);
 
-    if (!targetLibId || !videoId || !chapters) {
-      return res.status(400).json({ error: 'Missing required fields: libraryId, videoId, or chapters.' });
+    if (!targetLibId || !targetVideoId) {
+      return res.status(400).json({ error: 'Missing required fields: libraryId or videoId.' });
     }
-
-    // 2. Security Check (Environment Variables)
-    // STRATEGY: 
-    // A. Specific Match: BUNNY_KEY_123456
-    // B. Scan Match: BUNNY_KEY_Anything_123456
-    // C. Global Fallback: BUNNY_API_KEY
-    
-    let apiKey = null;
-    let usedEnvKey = null;
-
-    // A. Direct Lookup
-    const directKey = `BUNNY_KEY_${targetLibId}`;
-    if (process.env[directKey]) {
-      apiKey = process.env[directKey];
-      usedEnvKey = directKey;
-    } 
-    
-    // B. Scan Lookup (if direct not found)
-    if (!apiKey) {
-      const foundKey = Object.keys(process.env).find(k => 
-        k.startsWith('BUNNY_KEY_') && k.includes(targetLibId)
-      );
-      if (foundKey) {
-        apiKey = process.env[foundKey];
-        usedEnvKey = foundKey;
-      }
+    if (!isLibraryId(targetLibId) || !isVideoGuid(targetVideoId)) {
+      return res.status(400).json({ error: 'Invalid libraryId or videoId: expected a numeric library ID and a video GUID.' });
     }
 
-    // C. Global Fallback (if specific not found)
-    if (!apiKey && process.env.BUNNY_API_KEY) {
-       apiKey = process.env.BUNNY_API_KEY;
-       usedEnvKey = "BUNNY_API_KEY (Global Fallback)";
+    const { payload, error: payloadError } = buildPayload(body);
+    if (payloadError) {
+      return res.status(400).json({ error: payloadError });
     }
+    if (Object.keys(payload).length === 0) {
+      return res.status(400).json({ error: 'Nothing to update: send chapters, title, metaTags or moments.' });
+    }
+
+    // Signed-in users only, and only for libraries they may modify
+    const user = requireLibraryAccess(req, res, targetLibId, true);
+    if (!user) return;
 
-    console.log(`[API] Key Lookup for ID ${targetLibId}. Found? ${!!apiKey} via ${usedEnvKey || 'none'}`);
+    // 2. Security Check (Environment Variables)
+    const { apiKey } = resolveLibraryKey(targetLibId);
 
     if (!apiKey) {
-      // DEBUG HELP: List available BUNNY keys (names only) so user can check for typos/deployment issues
-      const visibleKeys = Object.keys(process.env)
-        .filter(k => k.startsWith('BUNNY_'))
-        .join(', ');
-
-      return res.status(500).json({ 
-        error: `Server Error: No API Key found for Library ID ${targetLibId}.`,
-        details: `Checked for BUNNY_KEY_${targetLibId} or variables containing '${targetLibId}' or BUNNY_API_KEY.`,
-        availableEnvVars: visibleKeys || "None detected starting with BUNNY_"
-      });
+      return sendMissingKey(res, targetLibId, user);
     }
 
-    // 3. Forward to Bunny.net
-    const url = `https://video.bunnycdn.com/library/${targetLibId}/videos/${videoId}`;
-
-    const response = await fetch(url, {
-      method: 'POST',
-      headers: {
-        'AccessKey': apiKey, 
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-      body: JSON.stringify({
-        chapters: chapters
-      }),
-    });
-
-    const responseText = await response.text();
-    
-    if (!response.ok) {
-      console.error(`[API] Bunny Upstream Error (${response.status}):`, responseText);
-      return res.status(response.status).json({ 
-        error: `Bunny.net Refused (Status ${response.status})`,
-        details: responseText
-      });
+    // Restores name the audit entry whose "before" state they bring back
+    if (restoredFrom) {
+      const restoreError = await checkRestoreSource(restoredFrom, targetLibId, targetVideoId);
+      if (restoreError) return res.status(400).json({ error: restoreError });
     }
 
-    console.log("[API] Success");
-    
-    // Attempt to parse JSON response, fallback to text if needed
-    try {
-      const data = JSON.parse(responseText);
-      return res.status(200).json({ success: true, data });
-    } catch (e) {
-       return res.status(200).json({ success: true, message: "Updated, but response was not JSON", raw: responseText });
-    }
+    // 3. Forward to Bunny.net, recording the state it replaces
+    const url = `https://video.bunnycdn.com/library/${targetLibId}/videos/${encodeURIComponent(targetVideoId)}`;
+    const fields = Object.keys(payload);
+    const action = fields.length === 1 && (fields[0] === 'chapters' || fields[0] === 'moments') ? fields[0] : 'metadata';
+
+    const previous = await captureVideoState(targetLibId, targetVideoId, apiKey);
+    const upstream = await postToBunny(url, apiKey, payload);
+    await recordWrite({ user, action, libraryId: targetLibId, videoId: targetVideoId, previous, payload, upstream, restoredFrom });
+
+    return relayBunnyResult(res, upstream);
 
   } catch (error) {
     console.error('[API] Critical Server Error:', error);
     return res.status(500).json({ error: `Internal Server Error: ${error.message}` });
   }
-};
\ No newline at end of file
+};
@@ -0,0 +1,84 @@
+// Vercel Serverless Function
+// LOCATION: /api/captions.js (MUST BE AT PROJECT ROOT)
+// Uploads a caption track (SRT or VTT) to a Bunny.net video.
+
+const { applyCors, isLibraryId, isVideoGuid, parseJsonBody, postToBunny, relayBunnyResult } = require('./_lib/http');
+const { resolveLibraryKey, sendMissingKey } = require('./_lib/bunnyKey');
+const { requireLibraryAccess } = require('./_lib/auth');
+const { captureVideoState, recordWrite, checkRestoreSource } = require('./_lib/audit');
+
+// Bunny.net expects a BCP-47 style language code (e.g. "en", "pt-BR")
+const LANGUAGE_CODE_PATTERN = /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})?$/;
+
+module.exports = async (req, res) => {
+  // Enable CORS
+  if (applyCors(req, res)) return;
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    const body = parseJsonBody(req, res);
+    if (!body) return;
+
+    const { libraryId, videoId, srclang, label, captions, restoredFrom } = body;
+    const targetLibId = String(libraryId || '').trim();
+    const targetVideoId = String(videoId || '').trim();
+    const lang = String(srclang || '').trim();
+
+    console.log(`[API] Caption Upload - Lib: ${targetLibId}, Video: ${targetVideoId}, Lang: ${lang}`);
+
+    if (!targetLibId || !targetVideoId || !lang || !captions) {
+      return res.status(400).json({ error: 'Missing required fields: libraryId, videoId, srclang, or captions.' });
+    }
+    if (!isLibraryId(targetLibId) || !isVideoGuid(targetVideoId)) {
+      return res.status(400).json({ error: 'Invalid libraryId or videoId: expected a numeric library ID and a video GUID.' });
+    }
+
+    if (!LANGUAGE_CODE_PATTERN.test(lang)) {
+      return res.status(400).json({ error: `Invalid language code "${lang}". Use a code like "en" or "pt-BR".` });
+    }
+
+    // Signed-in users only, and only for libraries they may modify
+    const user = requireLibraryAccess(req, res, targetLibId, true);
+    if (!user) return;
+
+    const { apiKey } = resolveLibraryKey(targetLibId);
+
+    if (!apiKey) {
+      return sendMissingKey(res, targetLibId, user);
+    }
+
+    // Restores name the audit entry whose "before" state they bring back
+    if (restoredFrom) {
+      const restoreError = await checkRestoreSource(restoredFrom, targetLibId, targetVideoId);
+      if (restoreError) return res.status(400).json({ error: restoreError });
+    }
+
+    // Bunny.net takes the caption file as a base64 string
+    const url = `https://video.bunnycdn.com/library/${targetLibId}/videos/${encodeURIComponent(targetVideoId)}/captions/${encodeURIComponent(lang)}`;
+
+    const trackLabel = String(label || lang).trim();
+
+    // Bunny.net does not return caption file contents, so the audit keeps the track list it replaced
+    const previous = await captureVideoState(targetLibId, targetVideoId, apiKey);
+    const upstream = await postToBunny(url, apiKey, {
+      srclang: lang,
+      label: trackLabel,
+      captionsFile: Buffer.from(String(captions), 'utf-8').toString('base64')
+    });
+    await recordWrite({
+      user, action: 'captions', libraryId: targetLibId, videoId: targetVideoId, previous,
+      payload: { srclang: lang, label: trackLabel, captions: String(captions) },
+      upstream,
+      restoredFrom
+    });
+
+    return relayBunnyResult(res, upstream);
+
+  } catch (error) {
+    console.error('[API] Critical Server Error:', error);
+    return res.status(500).json({ error: `Internal Server Error: ${error.message}` });
+  }
+};
@@ -0,0 +1,148 @@
+// Vercel Serverless Function
+// LOCATION: /api/generate.js (MUST BE AT PROJECT ROOT)
+// GET: model chains per task. POST: runs one generation on the configured provider
+// (server-side keys) and streams the text back as NDJSON:
+//   {"type":"chunk","text":"..."}  (repeated)
+//   {"type":"done"} or {"type":"error","error":"...","code":"..."}
+// Error responses carry a `code` from _lib/aiErrors.js so the client knows whether to retry.
+
+const { applyCors, parseJsonBody } = require('./_lib/http');
+const { requireUser } = require('./_lib/auth');
+const { takeToken } = require('./_lib/rateLimit');
+const { loadAiConfig, resolveModel } = require('./_lib/aiConfig');
+const { classifyProviderError } = require('./_lib/aiErrors');
+
+// Transcript + prompt size cap. Vercel rejects bodies over 4.5 MB anyway; this gives a clear message first.
+const MAX_INPUT_CHARS = Number(process.env.GENERATE_MAX_CHARS) || 2000000;
+const MAX_OUTPUT_TOKENS = 65536;
+
+// Generations per user per minute (a caption job sends one request per 8-minute window)
+const RATE_LIMIT_PER_MINUTE = Number(process.env.GENERATE_RATE_LIMIT) || 30;
+
+/**
+ * Copies only the generation settings the app uses into the provider-neutral options,
+ * so the client cannot enable tools or other features.
+ */
+const pickOptions = (config) => {
+  const options = {};
+  if (typeof config.temperature === 'number') options.temperature = config.temperature;
+  if (typeof config.maxOutputTokens === 'number') options.maxOutputTokens = Math.min(config.maxOutputTokens, MAX_OUTPUT_TOKENS);
+  if (config.responseSchema && typeof config.responseSchema === 'object') {
+    options.json = true;
+    options.schema = config.responseSchema;
+  } else if (config.responseMimeType === 'application/json') {
+    options.json = true;
+  }
+  return options;
+};
+
+module.exports = async (req, res) => {
+  // Enable CORS
+  if (applyCors(req, res)) return;
+
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  const user = requireUser(req, res);
+  if (!user) return;
+
+  // GET: the model chain for each task, in fallback order, and the client's retry policy
+  if (req.method === 'GET') {
+    const { tasks, retry } = loadAiConfig();
+    return res.status(200).json({ tasks, retry });
+  }
+
+  const body = parseJsonBody(req, res);
+  if (!body) return;
+
+  const { model, systemInstruction, contents, config } = body;
+  const input = String(contents || '');
+
+  const resolved = resolveModel(model);
+  if (!resolved) {
+    return res.status(400).json({ error: `Model "${model}" is not in the configured model chains.`, code: 'bad-request' });
+  }
+
+  if (!input.trim()) {
+    return res.status(400).json({ error: 'Missing required field: contents.', code: 'bad-request' });
+  }
+
+  if (input.length + String(systemInstruction || '').length > MAX_INPUT_CHARS) {
+    return res.status(413).json({ error: `Input is too large (${input.length} characters; limit ${MAX_INPUT_CHARS}).`, code: 'input-too-large' });
+  }
+
+  const rate = takeToken(`generate:${user.username}`, RATE_LIMIT_PER_MINUTE);
+  if (!rate.allowed) {
+    res.setHeader('Retry-After', String(rate.retryAfterSeconds));
+    return res.status(429).json({
+      error: `Too many AI requests. Try again in ${rate.retryAfterSeconds} seconds.`,
+      code: 'rate-limit',
+      retryAfterSeconds: rate.retryAfterSeconds
+    });
+  }
+
+  const { provider } = resolved;
+  const missing = provider.missingConfig();
+  if (missing) {
+    return res.status(500).json({ error: `Server Error: ${missing}`, code: 'config' });
+  }
+
+  console.log(`[API] Generate - ${user.username}, Model: ${model}, Input: ${input.length} chars`);
+
+  // Stop the upstream request when the browser goes away (job cancelled, tab closed)
+  const upstream = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      console.log(`[API] Generate - ${user.username} disconnected, aborting ${model}`);
+      upstream.abort();
+    }
+  });
+
+  const chunks = provider.streamText({
+    model: resolved.model,
+    systemInstruction: String(systemInstruction || ''),
+    contents: input,
+    options: pickOptions(config || {}),
+    signal: upstream.signal,
+  });
+
+  let first;
+  try {
+    first = await chunks.next();
+  } catch (rawError) {
+    if (upstream.signal.aborted) return;
+    // Nothing sent yet, so the client still gets a normal JSON error
+    const error = classifyProviderError(rawError);
+    console.error(`[API] ${provider.name} Error (${error.aiCode}):`, rawError);
+    if (error.retryAfterSeconds) res.setHeader('Retry-After', String(error.retryAfterSeconds));
+    return res.status(502).json({
+      error: `${provider.name} Error: ${error.message}`,
+      code: error.aiCode,
+      retryAfterSeconds: error.retryAfterSeconds
+    });
+  }
+
+  if (first.done) {
+    return res.status(502).json({ error: `${provider.name} returned an empty response.`, code: 'empty' });
+  }
+
+  res.status(200);
+  res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-cache');
+
+  try {
+    for (let step = first; !step.done && !upstream.signal.aborted; step = await chunks.next()) {
+      res.write(JSON.stringify({ type: 'chunk', text: step.value }) + '\n');
+    }
+    if (upstream.signal.aborted) return;
+    res.write(JSON.stringify({ type: 'done' }) + '\n');
+  } catch (rawError) {
+    if (upstream.signal.aborted) return;
+    // Headers are already sent; report the failure in-band
+    const error = classifyProviderError(rawError);
+    console.error(`[API] ${provider.name} Stream Error (${error.aiCode}):`, rawError);
+    res.write(JSON.stringify({ type: 'error', error: `${provider.name} Error: ${error.message}`, code: error.aiCode }) + '\n');
+  }
+  res.end();
+};
@@ -0,0 +1,85 @@
+// Vercel Serverless Function
+// LOCATION: /api/libraries.js (MUST BE AT PROJECT ROOT)
+// Serves the library registry, and checks that a library's key works (?check=<libraryId>).
+
+const { applyCors, getFromBunny } = require('./_lib/http');
+const { loadRegistry } = require('./_lib/registry');
+const { resolveLibraryKey } = require('./_lib/bunnyKey');
+const { requireUser, requireLibraryAccess, canAccessLibrary } = require('./_lib/auth');
+
+/**
+ * Health check: resolves the key and lists a single video, which fails on a wrong key or library ID.
+ */
+const checkLibrary = async (libraryId, user) => {
+  const isAdmin = user.role === 'admin';
+  const { apiKey, usedEnvKey } = resolveLibraryKey(libraryId);
+
+  if (!apiKey) {
+    return { libraryId, ok: false, keyEnv: null, message: 'No API key configured for this library.', totalVideos: null };
+  }
+
+  const url = `https://video.bunnycdn.com/library/${libraryId}/videos?page=1&itemsPerPage=1`;
+  const upstream = await getFromBunny(url, apiKey);
+
+  if (!upstream.ok) {
+    const message = upstream.status === 401
+      ? `Bunny.net rejected the key${isAdmin ? ` in ${usedEnvKey}` : ''}.`
+      : `Bunny.net Refused (Status ${upstream.status})`;
+    return { libraryId, ok: false, keyEnv: isAdmin ? usedEnvKey : null, message, totalVideos: null };
+  }
+
+  return {
+    libraryId,
+    ok: true,
+    keyEnv: isAdmin ? usedEnvKey : null,
+    message: 'Connected.',
+    totalVideos: upstream.data ? Number(upstream.data.totalItems) || 0 : null
+  };
+};
+
+module.exports = async (req, res) => {
+  // Enable CORS
+  if (applyCors(req, res)) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    const check = String((req.query || {}).check || '').trim();
+
+    if (check) {
+      if (!/^\d+$/.test(check)) {
+        return res.status(400).json({ error: 'Library ID must be numeric.' });
+      }
+      const user = requireLibraryAccess(req, res, check, false);
+      if (!user) return;
+      console.log(`[API] Library Health Check - Lib: ${check}`);
+      return res.status(200).json({ success: true, health: await checkLibrary(check, user) });
+    }
+
+    const user = requireUser(req, res);
+    if (!user) return;
+
+    // Each user only sees the libraries they may access
+    const { source, libraries } = loadRegistry();
+    const visible = libraries.filter(lib => canAccessLibrary(user, lib.libraryId, false));
+    console.log(`[API] Library Registry - ${visible.length}/${libraries.length} libraries from ${source} for ${user.username}`);
+
+    return res.status(200).json({
+      success: true,
+      source,
+      libraries: visible.map(lib => ({
+        ...lib,
+        keyEnv: user.role === 'admin' ? lib.keyEnv : null,
+        // Same lookup as the proxies, so BUNNY_KEY_<id> and BUNNY_API_KEY count too
+        keyConfigured: !!resolveLibraryKey(lib.libraryId).apiKey,
+        canWrite: canAccessLibrary(user, lib.libraryId, true),
+      })),
+    });
+
+  } catch (error) {
+    console.error('[API] Critical Server Error:', error);
+    return res.status(500).json({ error: `Internal Server Error: ${error.message}` });
+  }
+};
@@ -0,0 +1,73 @@
+// Vercel Serverless Function
+// LOCATION: /api/login.js (MUST BE AT PROJECT ROOT)
+// POST { username, password } -> signed session token. GET -> the signed-in user (token check).
+
+const { applyCors, clientIp, parseJsonBody } = require('./_lib/http');
+const { isConfigured, login, requireUser } = require('./_lib/auth');
+const { takeToken } = require('./_lib/rateLimit');
+
+// Sign-in attempts per minute, counted separately per client IP and per username
+const LOGIN_RATE_LIMIT_PER_MINUTE = Number(process.env.LOGIN_RATE_LIMIT) || 10;
+
+/**
+ * Counts the attempt against both the caller's IP and the username, so neither one address
+ * trying many names nor many addresses trying one name gets unlimited guesses.
+ */
+const takeLoginToken = (req, username) => {
+  const byIp = takeToken(`login-ip:${clientIp(req)}`, LOGIN_RATE_LIMIT_PER_MINUTE);
+  const byUser = takeToken(`login-user:${username.toLowerCase()}`, LOGIN_RATE_LIMIT_PER_MINUTE);
+  return {
+    allowed: byIp.allowed && byUser.allowed,
+    retryAfterSeconds: Math.max(byIp.retryAfterSeconds, byUser.retryAfterSeconds)
+  };
+};
+
+module.exports = async (req, res) => {
+  // Enable CORS
+  if (applyCors(req, res)) return;
+
+  try {
+    if (req.method === 'GET') {
+      const user = requireUser(req, res);
+      if (!user) return;
+      return res.status(200).json({ success: true, user });
+    }
+
+    if (req.method !== 'POST') {
+      return res.status(405).json({ error: 'Method Not Allowed' });
+    }
+
+    if (!isConfigured()) {
+      return res.status(500).json({ error: 'Server Error: Authentication is not configured. Set AUTH_SECRET and APP_USERS.' });
+    }
+
+    const body = parseJsonBody(req, res);
+    if (!body) return;
+
+    const username = String(body.username || '').trim();
+    const rate = takeLoginToken(req, username);
+    if (!rate.allowed) {
+      console.warn(`[API] Sign-in rate limit hit for "${username}" from ${clientIp(req)}`);
+      res.setHeader('Retry-After', String(rate.retryAfterSeconds));
+      return res.status(429).json({
+        error: `Too many sign-in attempts. Try again in ${rate.retryAfterSeconds} seconds.`,
+        code: 'rate-limit',
+        retryAfterSeconds: rate.retryAfterSeconds
+      });
+    }
+
+    const session = login(body.username, body.password);
+
+    if (!session) {
+      console.warn(`[API] Failed sign-in for "${username}"`);
+      return res.status(401).json({ error: 'Incorrect username or password.' });
+    }
+
+    console.log(`[API] Signed in ${session.user.username} (${session.user.role})`);
+    return res.status(200).json({ success: true, ...session });
+
+  } catch (error) {
+    console.error('[API] Critical Server Error:', error);
+    return res.status(500).json({ error: `Internal Server Error: ${error.message}` });
+  }
+};
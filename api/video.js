@@ -0,0 +1,80 @@
+// Vercel Serverless Function
+// LOCATION: /api/video.js (MUST BE AT PROJECT ROOT)
+// Reads a Bunny.net video object (length, title, chapters, captions, meta tags, moments, encode status).
+
+const { applyCors, isLibraryId, isVideoGuid, getFromBunny } = require('./_lib/http');
+const { resolveLibraryKey, sendMissingKey } = require('./_lib/bunnyKey');
+const { requireLibraryAccess } = require('./_lib/auth');
+
+/**
+ * Keeps only the fields the processor uses, so the client never depends on Bunny's full schema.
+ */
+const toVideoInfo = (video) => ({
+  guid: video.guid,
+  title: video.title || '',
+  lengthSeconds: Number(video.length) || 0,
+  status: typeof video.status === 'number' ? video.status : null,
+  encodeProgress: typeof video.encodeProgress === 'number' ? video.encodeProgress : null,
+  dateUploaded: video.dateUploaded || null,
+  chapters: Array.isArray(video.chapters) ? video.chapters : [],
+  captions: Array.isArray(video.captions)
+    ? video.captions.map(c => ({ srclang: c.srclang, label: c.label || c.srclang }))
+    : [],
+  metaTags: Array.isArray(video.metaTags)
+    ? video.metaTags.map(t => ({ property: String(t.property || ''), value: String(t.value || '') }))
+    : [],
+  moments: Array.isArray(video.moments)
+    ? video.moments.map(m => ({ label: String(m.label || ''), timestamp: Number(m.timestamp) || 0 }))
+    : [],
+});
+
+module.exports = async (req, res) => {
+  // Enable CORS
+  if (applyCors(req, res)) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    const { libraryId, videoId } = req.query || {};
+    const targetLibId = String(libraryId || '').trim();
+    const targetVideoId = String(videoId || '').trim();
+
+    console.log(`[API] Video Lookup - Lib: ${targetLibId}, Video: ${targetVideoId}`);
+
+    if (!targetLibId || !targetVideoId) {
+      return res.status(400).json({ error: 'Missing required query parameters: libraryId or videoId.' });
+    }
+    if (!isLibraryId(targetLibId) || !isVideoGuid(targetVideoId)) {
+      return res.status(400).json({ error: 'Invalid libraryId or videoId: expected a numeric library ID and a video GUID.' });
+    }
+
+    // Signed-in users only, and only for libraries they may read
+    const user = requireLibraryAccess(req, res, targetLibId, false);
+    if (!user) return;
+
+    const { apiKey } = resolveLibraryKey(targetLibId);
+
+    if (!apiKey) {
+      return sendMissingKey(res, targetLibId, user);
+    }
+
+    const url = `https://video.bunnycdn.com/library/${targetLibId}/videos/${encodeURIComponent(targetVideoId)}`;
+    const upstream = await getFromBunny(url, apiKey);
+
+    if (!upstream.ok || !upstream.data) {
+      console.error(`[API] Bunny Upstream Error (${upstream.status}):`, upstream.text);
+      return res.status(upstream.ok ? 502 : upstream.status).json({
+        error: `Bunny.net Refused (Status ${upstream.status})`,
+        details: upstream.text
+      });
+    }
+
+    return res.status(200).json({ success: true, video: toVideoInfo(upstream.data) });
+
+  } catch (error) {
+    console.error('[API] Critical Server Error:', error);
+    return res.status(500).json({ error: `Internal Server Error: ${error.message}` });
+  }
+};
@@ -0,0 +1,111 @@
+// Vercel Serverless Function
+// LOCATION: /api/videos.js (MUST BE AT PROJECT ROOT)
+// Lists and searches the videos in a Bunny.net library, one page at a time.
+
+const { applyCors, isLibraryId, getFromBunny } = require('./_lib/http');
+const { resolveLibraryKey, sendMissingKey } = require('./_lib/bunnyKey');
+const { requireLibraryAccess } = require('./_lib/auth');
+
+const DEFAULT_PAGE_SIZE = 25;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Parses a positive integer query parameter, falling back when missing or invalid.
+ */
+const toPositiveInt = (value, fallback, max) => {
+  const parsed = parseInt(String(value || ''), 10);
+  if (!Number.isFinite(parsed) || parsed < 1) return fallback;
+  return max ? Math.min(parsed, max) : parsed;
+};
+
+/**
+ * Keeps only the fields the video picker needs.
+ */
+const toVideoSummary = (video, collectionNames) => ({
+  guid: video.guid,
+  title: video.title || '',
+  lengthSeconds: Number(video.length) || 0,
+  status: typeof video.status === 'number' ? video.status : null,
+  dateUploaded: video.dateUploaded || null,
+  collectionId: video.collectionId || null,
+  collectionName: (video.collectionId && collectionNames[video.collectionId]) || null,
+});
+
+module.exports = async (req, res) => {
+  // Enable CORS
+  if (applyCors(req, res)) return;
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method Not Allowed' });
+  }
+
+  try {
+    const { libraryId, search, page, itemsPerPage } = req.query || {};
+    const targetLibId = String(libraryId || '').trim();
+    const searchTerm = String(search || '').trim();
+    const pageNumber = toPositiveInt(page, 1);
+    const pageSize = toPositiveInt(itemsPerPage, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+
+    console.log(`[API] Video List - Lib: ${targetLibId}, Page: ${pageNumber}, Search: "${searchTerm}"`);
+
+    if (!targetLibId) {
+      return res.status(400).json({ error: 'Missing required query parameter: libraryId.' });
+    }
+    if (!isLibraryId(targetLibId)) {
+      return res.status(400).json({ error: 'Invalid libraryId: expected a numeric library ID.' });
+    }
+
+    // Signed-in users only, and only for libraries they may read
+    const user = requireLibraryAccess(req, res, targetLibId, false);
+    if (!user) return;
+
+    const { apiKey } = resolveLibraryKey(targetLibId);
+
+    if (!apiKey) {
+      return sendMissingKey(res, targetLibId, user);
+    }
+
+    const query = new URLSearchParams({
+      page: String(pageNumber),
+      itemsPerPage: String(pageSize),
+      orderBy: 'date',
+    });
+    if (searchTerm) query.set('search', searchTerm);
+
+    const base = `https://video.bunnycdn.com/library/${targetLibId}`;
+    const [upstream, collections] = await Promise.all([
+      getFromBunny(`${base}/videos?${query}`, apiKey),
+      getFromBunny(`${base}/collections?page=1&itemsPerPage=100`, apiKey),
+    ]);
+
+    if (!upstream.ok || !upstream.data) {
+      console.error(`[API] Bunny Upstream Error (${upstream.status}):`, upstream.text);
+      return res.status(upstream.ok ? 502 : upstream.status).json({
+        error: `Bunny.net Refused (Status ${upstream.status})`,
+        details: upstream.text
+      });
+    }
+
+    // Collection names are a nice-to-have; the list still works without them
+    const collectionNames = {};
+    if (collections.ok && collections.data && Array.isArray(collections.data.items)) {
+      collections.data.items.forEach(c => { collectionNames[c.guid] = c.name; });
+    } else {
+      console.warn(`[API] Could not load collections (${collections.status})`);
+    }
+
+    const items = Array.isArray(upstream.data.items) ? upstream.data.items : [];
+
+    return res.status(200).json({
+      success: true,
+      page: pageNumber,
+      itemsPerPage: pageSize,
+      totalItems: Number(upstream.data.totalItems) || items.length,
+      videos: items.map(video => toVideoSummary(video, collectionNames)),
+    });
+
+  } catch (error) {
+    console.error('[API] Critical Server Error:', error);
+    return res.status(500).json({ error: `Internal Server Error: ${error.message}` });
+  }
+};
@@ -0,0 +1,219 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { AuditEntry, AuditVideoState, BunnyChapter, BunnyLibrary, VideoMetadataUpdate } from '../types';
+import { fetchAuditLog, isVideoGuid } from '../services/bunnyService';
+import { formatTimestamp } from '../services/transcriptParser';
+import { descriptionOf } from '../services/videoMetadata';
+import { SpinnerIcon } from './Icon';
+
+interface AuditLogPanelProps {
+  libraries: BunnyLibrary[];  // For library names in the filter and table
+  libraryId: string;          // Target currently selected in single-file mode, offered as a filter
+  videoId: string;
+}
+
+const ChapterList: React.FC<{ chapters: BunnyChapter[] | undefined }> = ({ chapters }) => {
+  if (!chapters || chapters.length === 0) {
+    return <p className="text-slate-400 italic">No chapters</p>;
+  }
+  return (
+    <ol className="space-y-0.5 font-mono">
+      {chapters.map((ch, i) => (
+        <li key={i}><span className="text-slate-400">{formatTimestamp(ch.start * 1000)}</span> {ch.title}</li>
+      ))}
+    </ol>
+  );
+};
+
+// Title, description, moments and chapters of a metadata or moments update; `fields` limits "Before" to what was sent
+const MetadataList: React.FC<{ values: VideoMetadataUpdate | AuditVideoState; fields: VideoMetadataUpdate }> = ({ values, fields }) => (
+  <div className="space-y-2">
+    {fields.title !== undefined && <p><span className="font-bold text-slate-500">Title:</span> {values.title || '(empty)'}</p>}
+    {fields.metaTags !== undefined && (
+      <p className="whitespace-pre-line"><span className="font-bold text-slate-500">Description:</span> {descriptionOf(values.metaTags ?? []) || '(empty)'}</p>
+    )}
+    {fields.moments !== undefined && (
+      <div>
+        <span className="font-bold text-slate-500">Moments:</span>
+        {(values.moments ?? []).length === 0 ? ' none' : (
+          <ol className="space-y-0.5 font-mono">
+            {values.moments!.map((m, i) => (
+              <li key={i}><span className="text-slate-400">{formatTimestamp(m.timestamp * 1000)}</span> {m.label}</li>
+            ))}
+          </ol>
+        )}
+      </div>
+    )}
+    {fields.chapters !== undefined && <ChapterList chapters={values.chapters} />}
+  </div>
+);
+
+const AuditDetails: React.FC<{ entry: AuditEntry }> = ({ entry }) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-xs">
+    <div>
+      <p className="font-bold text-slate-500 mb-1">Before</p>
+      {!entry.previous ? (
+        <p className="text-amber-600">The video could not be read before this update.</p>
+      ) : entry.action === 'chapters' ? (
+        <ChapterList chapters={entry.previous.chapters} />
+      ) : entry.action === 'metadata' || entry.action === 'moments' ? (
+        <MetadataList values={entry.previous} fields={entry.payload} />
+      ) : (
+        <p>Tracks: {entry.previous.captions.length === 0 ? 'none' : entry.previous.captions.map(c => `${c.srclang} (${c.label})`).join(', ')}</p>
+      )}
+    </div>
+    <div>
+      <p className="font-bold text-slate-500 mb-1">Sent</p>
+      {entry.action === 'chapters' ? (
+        <ChapterList chapters={entry.payload.chapters} />
+      ) : entry.action === 'metadata' || entry.action === 'moments' ? (
+        <MetadataList values={entry.payload} fields={entry.payload} />
+      ) : (
+        <>
+          <p>Track: {entry.payload.srclang} ({entry.payload.label})</p>
+          <pre className="mt-1 max-h-40 overflow-auto custom-scrollbar bg-slate-50 border border-slate-200 rounded p-2 whitespace-pre-wrap">{entry.payload.captions}</pre>
+        </>
+      )}
+      {entry.upstreamError && (
+        <p className="mt-2 text-red-600 break-words">Bunny.net: {entry.upstreamError}</p>
+      )}
+    </div>
+  </div>
+);
+
+const AuditLogPanel: React.FC<AuditLogPanelProps> = ({ libraries, libraryId, videoId }) => {
+  const [filterLibrary, setFilterLibrary] = useState('');
+  const [filterVideo, setFilterVideo] = useState('');
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [ephemeral, setEphemeral] = useState(false);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The API only filters by complete GUIDs, so a half-typed one waits
+  const partialVideoFilter = filterVideo !== '' && !isVideoGuid(filterVideo);
+
+  const load = useCallback(async () => {
+    if (partialVideoFilter) return;
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await fetchAuditLog({ libraryId: filterLibrary, videoId: filterVideo, limit: 200 });
+      setEntries(result.entries);
+      setEphemeral(result.ephemeral);
+    } catch (e: any) {
+      setError(e.message);
+    } finally {
+      setLoading(false);
+    }
+  }, [filterLibrary, filterVideo, partialVideoFilter]);
+
+  // Debounced so typing a GUID does not send a request per keystroke
+  useEffect(() => {
+    const timer = setTimeout(load, 300);
+    return () => clearTimeout(timer);
+  }, [load]);
+
+  const libraryName = (id: string) => libraries.find(lib => lib.libraryId === id)?.name || id;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+      <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex flex-wrap gap-3 justify-between items-center">
+        <h4 className="font-bold text-slate-700">Audit Log</h4>
+        <div className="flex flex-wrap gap-2 items-center text-sm">
+          <select
+            value={filterLibrary}
+            onChange={(e) => setFilterLibrary(e.target.value)}
+            className="border border-slate-300 rounded px-3 py-1.5 text-sm focus:outline-none focus:border-brand-500"
+          >
+            <option value="">All libraries</option>
+            {libraries.map(lib => (
+              <option key={lib.libraryId} value={lib.libraryId}>{lib.name}</option>
+            ))}
+          </select>
+          <input
+            value={filterVideo}
+            onChange={(e) => setFilterVideo(e.target.value.trim())}
+            placeholder="Video GUID"
+            className="w-64 border border-slate-300 rounded px-3 py-1.5 text-xs font-mono focus:outline-none focus:border-brand-500"
+          />
+          {videoId && (filterVideo !== videoId || filterLibrary !== libraryId) && (
+            <button
+              onClick={() => { setFilterLibrary(libraryId); setFilterVideo(videoId); }}
+              className="text-xs font-bold text-brand-600 hover:text-brand-800"
+            >
+              Current video
+            </button>
+          )}
+          <button onClick={load} disabled={loading} className="px-3 py-1.5 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 transition flex items-center disabled:opacity-50">
+            {loading && <SpinnerIcon />} Refresh
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="px-6 py-3 text-sm text-red-600 whitespace-pre-line">{error}</p>}
+      {partialVideoFilter && (
+        <p className="px-6 py-3 text-sm text-slate-500 border-b border-slate-100">Enter the full video GUID to filter by video.</p>
+      )}
+      {!error && ephemeral && (
+        <p className="px-6 py-3 text-sm text-amber-700 bg-amber-50 border-b border-amber-100">
+          This log is kept in the server's temp dir, which is not persistent (on Vercel it is wiped on every cold start). Set <span className="font-mono">AUDIT_LOG_PATH</span> to keep it.
+        </p>
+      )}
+
+      {!error && entries.length === 0 && !loading && (
+        <p className="px-6 py-8 text-center text-sm text-slate-400">No updates recorded.</p>
+      )}
+
+      {entries.length > 0 && (
+        <table className="w-full text-sm">
+          <thead className="text-xs uppercase tracking-wide text-slate-500 bg-slate-50 border-b border-slate-200">
+            <tr>
+              <th className="text-left px-4 py-2">When</th>
+              <th className="text-left px-4 py-2">User</th>
+              <th className="text-left px-4 py-2">Change</th>
+              <th className="text-left px-4 py-2">Video</th>
+              <th className="text-left px-4 py-2">Result</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {entries.map(entry => (
+              <React.Fragment key={entry.id}>
+                <tr onClick={() => setExpanded(expanded === entry.id ? null : entry.id)} className="cursor-pointer hover:bg-slate-50 align-top">
+                  <td className="px-4 py-2 whitespace-nowrap text-slate-600">{new Date(entry.timestamp).toLocaleString()}</td>
+                  <td className="px-4 py-2">{entry.username} <span className="text-[10px] uppercase text-slate-400">{entry.role}</span></td>
+                  <td className="px-4 py-2">
+                    {entry.action === 'chapters'
+                      ? `Chapters (${entry.previous?.chapters.length ?? '?'} → ${entry.payload.chapters?.length ?? 0})`
+                      : entry.action === 'moments'
+                        ? `Moments (${entry.previous?.moments?.length ?? '?'} → ${entry.payload.moments?.length ?? 0})`
+                        : entry.action === 'metadata'
+                          ? `Metadata (${Object.keys(entry.payload).join(', ')})`
+                          : `Captions (${entry.payload.srclang})`}
+                  </td>
+                  <td className="px-4 py-2">
+                    <p className="truncate max-w-[260px]" title={entry.videoTitle || ''}>{entry.videoTitle || '(unknown title)'}</p>
+                    <p className="text-[11px] text-slate-400 font-mono">{libraryName(entry.libraryId)} · {entry.videoId}</p>
+                  </td>
+                  <td className="px-4 py-2">
+                    <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${entry.success ? 'text-green-700 bg-green-100' : 'text-red-700 bg-red-100'}`}>
+                      {entry.success ? 'OK' : 'Failed'} {entry.upstreamStatus}
+                    </span>
+                  </td>
+                </tr>
+                {expanded === entry.id && (
+                  <tr>
+                    <td colSpan={5} className="px-4 py-3 bg-slate-50/50">
+                      <AuditDetails entry={entry} />
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default AuditLogPanel;
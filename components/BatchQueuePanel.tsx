@@ -0,0 +1,324 @@
+import React, { useState } from 'react';
+import { BatchItem, BatchItemStatus, BatchOptions, BunnyLibrary, CaptionFormat } from '../types';
+import {
+  BATCH_CONCURRENCY, DEFAULT_FILENAME_PATTERN,
+  createBatchItem, matchFileName, processBatchItem, deployBatchItem
+} from '../services/batchQueue';
+import { mapWithConcurrency } from '../services/asyncPool';
+import { downloadTextFile, baseFileName } from '../services/fileDownload';
+import { convertCaptions } from '../services/captionFormat';
+import { formatTimestamp } from '../services/transcriptParser';
+import { SpinnerIcon, UploadIcon } from './Icon';
+
+const STATUS_STYLES: Record<BatchItemStatus, string> = {
+  pending: 'text-slate-600 bg-slate-100',
+  processing: 'text-purple-700 bg-purple-100',
+  processed: 'text-brand-600 bg-brand-50',
+  deploying: 'text-purple-700 bg-purple-100',
+  deployed: 'text-green-700 bg-green-100',
+  error: 'text-red-700 bg-red-100',
+};
+
+const hasAllResults = (item: BatchItem, options: BatchOptions): boolean =>
+  (!options.chapters || !!item.chapterResult) && (!options.captions || !!item.captionResult);
+
+interface BatchQueuePanelProps {
+  libraries: BunnyLibrary[]; // Library registry, for the default library and chapter policies
+}
+
+const BatchQueuePanel: React.FC<BatchQueuePanelProps> = ({ libraries }) => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [options, setOptions] = useState<BatchOptions>({ chapters: true, captions: true, captionLanguage: 'en', captionLabel: 'English', captionFormat: 'srt' });
+  const [defaultLibraryId, setDefaultLibraryId] = useState('');
+  const [pattern, setPattern] = useState(DEFAULT_FILENAME_PATTERN);
+  const [patternError, setPatternError] = useState<string | null>(null);
+  const [running, setRunning] = useState(false);
+
+  const patchItem = (id: string, patch: Partial<BatchItem>) => {
+    setItems(prev => prev.map(item => (item.id === id ? { ...item, ...patch } : item)));
+  };
+
+  // --- Queue Building ---
+
+  const addFiles = async (files: FileList | null) => {
+    if (!files || files.length === 0) return;
+    const accepted = Array.from(files).filter(f => /\.(vtt|srt|txt)$/i.test(f.name));
+    const created = await Promise.all(accepted.map(file => createBatchItem(file, defaultLibraryId)));
+
+    // Auto-map from the file name where the pattern matches
+    let mapped = created;
+    try {
+      mapped = created.map(item => ({ ...item, ...matchFileName(item.fileName, pattern) }));
+      setPatternError(null);
+    } catch (err: any) {
+      setPatternError(`Invalid pattern: ${err.message}`);
+    }
+    setItems(prev => [...prev, ...mapped]);
+  };
+
+  const applyPattern = () => {
+    try {
+      setItems(prev => prev.map(item => {
+        const mapped = { ...item, ...matchFileName(item.fileName, pattern) };
+        // Writes made for the old video do not count for a new one
+        return mapped.libraryId === item.libraryId && mapped.videoId === item.videoId ? mapped : { ...mapped, deployedSteps: [] };
+      }));
+      setPatternError(null);
+    } catch (err: any) {
+      setPatternError(`Invalid pattern: ${err.message}`);
+    }
+  };
+
+  const applyDefaultLibrary = (libraryId: string) => {
+    setDefaultLibraryId(libraryId);
+    setItems(prev => prev.map(item => (item.libraryId ? item : { ...item, libraryId })));
+  };
+
+  // --- Running ---
+  // Every worker catches its own error so one failed row never stops the others.
+
+  const runProcess = async (item: BatchItem) => {
+    patchItem(item.id, { status: 'processing', message: 'Starting...' });
+    try {
+      const library = libraries.find(lib => lib.libraryId === item.libraryId.trim());
+      const results = await processBatchItem(item, options, message => patchItem(item.id, { message }), library?.chapterTitles);
+      patchItem(item.id, { ...results, status: 'processed', message: null });
+      return { ...item, ...results };
+    } catch (err: any) {
+      patchItem(item.id, { status: 'error', message: err.message || 'Processing failed.' });
+      return null;
+    }
+  };
+
+  const runDeploy = async (item: BatchItem) => {
+    patchItem(item.id, { status: 'deploying', message: 'Starting...' });
+    try {
+      const library = libraries.find(lib => lib.libraryId === item.libraryId.trim());
+      let deployedSteps = item.deployedSteps;
+      await deployBatchItem(
+        item,
+        options,
+        message => patchItem(item.id, { message }),
+        step => {
+          deployedSteps = [...deployedSteps, step];
+          patchItem(item.id, { deployedSteps });
+        },
+        library?.chapterPolicy,
+        library?.chapterTitles
+      );
+      patchItem(item.id, { status: 'deployed', message: null });
+    } catch (err: any) {
+      patchItem(item.id, { status: 'error', message: err.message || 'Deploy failed.' });
+    }
+  };
+
+  const runAll = async (worker: (item: BatchItem) => Promise<unknown>, targets: BatchItem[]) => {
+    if (targets.length === 0) return;
+    setRunning(true);
+    try {
+      await mapWithConcurrency(targets, BATCH_CONCURRENCY, worker);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const processAll = () =>
+    runAll(runProcess, items.filter(item => item.transcript && item.status !== 'deployed' && !hasAllResults(item, options)));
+
+  const deployAll = () =>
+    runAll(runDeploy, items.filter(item => item.status !== 'deployed' && hasAllResults(item, options)));
+
+  // Retry resumes from the step that failed: processing if results are missing, otherwise the deploy
+  // step that failed (steps already written are skipped)
+  const retry = async (item: BatchItem) => {
+    if (hasAllResults(item, options)) {
+      await runDeploy(item);
+    } else {
+      await runProcess(item);
+    }
+  };
+
+  const isBusy = (item: BatchItem) => item.status === 'processing' || item.status === 'deploying';
+  const readyCount = items.filter(item => item.status !== 'deployed' && hasAllResults(item, options)).length;
+
+  return (
+    <div className="space-y-6">
+      {/* Settings */}
+      <div className="bg-white rounded-xl shadow-sm border border-slate-200 p-6 space-y-5">
+        <label
+          onDragOver={(e) => e.preventDefault()}
+          onDrop={(e) => { e.preventDefault(); addFiles(e.dataTransfer.files); }}
+          className="flex flex-col items-center justify-center border-2 border-dashed border-slate-300 rounded-xl py-8 text-slate-500 cursor-pointer hover:border-brand-500 hover:text-brand-600 transition"
+        >
+          <UploadIcon />
+          <span className="font-medium">Drop transcripts here or click to choose (.vtt, .srt, .txt)</span>
+          <input type="file" multiple accept=".vtt,.srt,.txt" className="hidden" onChange={(e) => { addFiles(e.target.files); e.target.value = ''; }} />
+        </label>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+          <div>
+            <label className="block text-slate-500 text-xs font-bold mb-2">Steps</label>
+            <label className="flex items-center gap-2"><input type="checkbox" checked={options.chapters} onChange={(e) => setOptions(o => ({ ...o, chapters: e.target.checked }))} /> Generate Chapters</label>
+            <label className="flex items-center gap-2 mt-1"><input type="checkbox" checked={options.captions} onChange={(e) => setOptions(o => ({ ...o, captions: e.target.checked }))} /> Clean Captions</label>
+          </div>
+          <div>
+            <label className="block text-slate-500 text-xs font-bold mb-2">Default Library</label>
+            <select
+              value={defaultLibraryId}
+              onChange={(e) => applyDefaultLibrary(e.target.value)}
+              className="w-full border border-slate-300 rounded px-3 py-2 text-sm focus:outline-none focus:border-brand-500"
+            >
+              <option value="">-- None --</option>
+              {libraries.map(lib => (
+                <option key={lib.libraryId} value={lib.libraryId}>{lib.name} ({lib.libraryId})</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-slate-500 text-xs font-bold mb-2">Caption Track</label>
+            <div className="flex gap-2">
+              <input value={options.captionLanguage} onChange={(e) => setOptions(o => ({ ...o, captionLanguage: e.target.value }))} placeholder="en" className="w-20 border border-slate-300 rounded px-3 py-2 text-sm font-mono focus:outline-none focus:border-brand-500" />
+              <input value={options.captionLabel} onChange={(e) => setOptions(o => ({ ...o, captionLabel: e.target.value }))} placeholder="English" className="flex-grow border border-slate-300 rounded px-3 py-2 text-sm focus:outline-none focus:border-brand-500" />
+              <select
+                value={options.captionFormat}
+                onChange={(e) => setOptions(o => ({ ...o, captionFormat: e.target.value as BatchOptions['captionFormat'] }))}
+                title="Format the captions are uploaded in"
+                className="border border-slate-300 rounded px-2 py-2 text-sm focus:outline-none focus:border-brand-500"
+              >
+                <option value="srt">SRT</option>
+                <option value="vtt">VTT</option>
+              </select>
+            </div>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-slate-500 text-xs font-bold mb-2">
+            File Name Pattern <span className="font-normal">(regex with named groups <code>videoId</code> and optionally <code>libraryId</code>)</span>
+          </label>
+          <div className="flex gap-2">
+            <input value={pattern} onChange={(e) => setPattern(e.target.value)} className="flex-grow border border-slate-300 rounded px-3 py-2 text-xs font-mono focus:outline-none focus:border-brand-500" />
+            <button onClick={applyPattern} className="px-4 py-2 bg-white border border-slate-300 text-slate-700 rounded-lg text-sm font-medium hover:bg-slate-50 transition">Apply to All</button>
+          </div>
+          {patternError && <p className="text-red-600 text-xs mt-1">{patternError}</p>}
+        </div>
+      </div>
+
+      {/* Queue */}
+      {items.length > 0 && (
+        <div className="bg-white rounded-xl shadow-sm border border-slate-200 overflow-hidden">
+          <div className="bg-slate-50 px-6 py-4 border-b border-slate-200 flex justify-between items-center">
+            <h4 className="font-bold text-slate-700">Queue ({items.length})</h4>
+            <div className="flex gap-2">
+              <button
+                onClick={processAll}
+                disabled={running || (!options.chapters && !options.captions)}
+                className="px-4 py-2 bg-purple-600 text-white rounded-lg text-sm font-bold hover:bg-purple-700 transition disabled:opacity-50 flex items-center"
+              >
+                {running && <SpinnerIcon />} Process All
+              </button>
+              <button
+                onClick={deployAll}
+                disabled={running || readyCount === 0}
+                className="px-4 py-2 bg-slate-900 text-white rounded-lg text-sm font-bold hover:bg-slate-800 transition disabled:opacity-50"
+              >
+                Deploy All ({readyCount})
+              </button>
+            </div>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead className="text-xs uppercase tracking-wide text-slate-500 bg-slate-50 border-b border-slate-200">
+              <tr>
+                <th className="text-left px-4 py-2">File</th>
+                <th className="text-left px-4 py-2">Library ID</th>
+                <th className="text-left px-4 py-2">Video GUID</th>
+                <th className="text-left px-4 py-2">Status</th>
+                <th className="text-right px-4 py-2">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {items.map(item => (
+                <tr key={item.id} className="align-top">
+                  <td className="px-4 py-3">
+                    <p className="font-medium text-slate-700 truncate max-w-[220px]" title={item.fileName}>{item.fileName}</p>
+                    {item.transcript && (
+                      <p className="text-xs text-slate-400">{item.transcript.cues.length} cues · {formatTimestamp(item.transcript.durationMs)}</p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3">
+                    <input
+                      value={item.libraryId}
+                      disabled={isBusy(item)}
+                      onChange={(e) => patchItem(item.id, { libraryId: e.target.value, deployedSteps: [] })}
+                      className="w-24 border border-slate-300 rounded px-2 py-1 text-xs font-mono focus:outline-none focus:border-brand-500"
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <input
+                      value={item.videoId}
+                      disabled={isBusy(item)}
+                      onChange={(e) => patchItem(item.id, { videoId: e.target.value, deployedSteps: [] })}
+                      placeholder="Video GUID"
+                      className="w-64 border border-slate-300 rounded px-2 py-1 text-xs font-mono focus:outline-none focus:border-brand-500"
+                    />
+                  </td>
+                  <td className="px-4 py-3">
+                    <span className={`px-2 py-0.5 rounded text-[10px] font-bold uppercase ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+                    {item.message && (
+                      <p className={`text-xs mt-1 max-w-[260px] break-words ${item.status === 'error' ? 'text-red-600' : 'text-slate-500'}`}>{item.message}</p>
+                    )}
+                    {item.status === 'error' && item.deployedSteps.length > 0 && (
+                      <p className="text-xs mt-1 text-slate-500">Already uploaded: {item.deployedSteps.join(', ')}. Retry skips them.</p>
+                    )}
+                  </td>
+                  <td className="px-4 py-3 text-right whitespace-nowrap space-x-2 text-xs font-bold">
+                    {item.chapterResult && (
+                      <button onClick={() => downloadTextFile(item.chapterResult!.csvContent, `${baseFileName(item.fileName)}_chapters.csv`)} className="text-slate-500 hover:text-brand-600">CSV</button>
+                    )}
+                    {item.captionResult && (['srt', 'vtt', 'txt'] as CaptionFormat[]).map(format => (
+                      <button
+                        key={format}
+                        onClick={() => downloadTextFile(convertCaptions(item.captionResult!.srtContent, format), `${baseFileName(item.fileName)}_cleaned_cc.${format}`)}
+                        className="text-slate-500 hover:text-brand-600"
+                      >
+                        {format.toUpperCase()}
+                      </button>
+                    ))}
+                    {item.status === 'error' && item.transcript && (
+                      <button
+                        onClick={() => retry(item)}
+                        disabled={running}
+                        className="text-purple-600 hover:text-purple-800 disabled:opacity-40"
+                      >
+                        Retry
+                      </button>
+                    )}
+                    {item.status === 'processed' && (
+                      <button
+                        onClick={() => runDeploy(item)}
+                        disabled={running}
+                        className="text-brand-600 hover:text-brand-900 disabled:opacity-40"
+                      >
+                        Deploy
+                      </button>
+                    )}
+                    <button
+                      onClick={() => setItems(prev => prev.filter(other => other.id !== item.id))}
+                      disabled={isBusy(item)}
+                      className="text-red-500 hover:text-red-700 disabled:opacity-40"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchQueuePanel;
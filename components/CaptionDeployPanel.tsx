@@ -0,0 +1,208 @@
+import React, { useState, useEffect } from 'react';
+import { BunnyStatus, CaptionLanguage, CaptionRestoreRequest } from '../types';
+import { uploadBunnyCaptions } from '../services/bunnyService';
+import { convertCaptions, detectCaptionFormat } from '../services/captionFormat';
+import { CheckCircleIcon, SpinnerIcon } from './Icon';
+
+interface CaptionDeployPanelProps {
+  libraryId: string;
+  videoId: string;
+  srtContent: string | null; // Cleaned captions from Step 1, if any
+  languages: CaptionLanguage[] | null; // Default tracks of the selected library, if it is in the registry
+  restoreRequest: CaptionRestoreRequest | null; // Snapshot track to load for re-upload
+  onUploaded: () => void;
+}
+
+const CaptionDeployPanel: React.FC<CaptionDeployPanelProps> = ({ libraryId, videoId, srtContent, languages, restoreRequest, onUploaded }) => {
+  const [editableCaptions, setEditableCaptions] = useState<string>('');
+  const [srclang, setSrclang] = useState<string>('en');
+  const [label, setLabel] = useState<string>('English');
+  const [status, setStatus] = useState<BunnyStatus>(BunnyStatus.IDLE);
+  const [error, setError] = useState<string | null>(null);
+  const [restoredFrom, setRestoredFrom] = useState<string | null>(null); // Set while the textarea holds an unedited snapshot
+  const [uploadFormat, setUploadFormat] = useState<'srt' | 'vtt'>('srt'); // Textarea content is converted to this before upload
+
+  // Sync caption content when a new result is produced
+  useEffect(() => {
+    setEditableCaptions(srtContent || '');
+    setRestoredFrom(null);
+    setStatus(BunnyStatus.IDLE);
+    setError(null);
+  }, [srtContent]);
+
+  // Load a snapshot track; uploading it goes through the same route (and audit) as any upload
+  useEffect(() => {
+    if (!restoreRequest) return;
+    setEditableCaptions(restoreRequest.content);
+    setUploadFormat(detectCaptionFormat(restoreRequest.content));
+    setSrclang(restoreRequest.srclang);
+    setLabel(restoreRequest.label);
+    setRestoredFrom(restoreRequest.entryId);
+    setStatus(BunnyStatus.IDLE);
+    setError(null);
+  }, [restoreRequest]);
+
+  // Start from the library's first configured language when the library changes
+  useEffect(() => {
+    if (languages && languages.length > 0) {
+      setSrclang(languages[0].srclang);
+      setLabel(languages[0].label);
+    }
+  }, [languages]);
+
+  const handleDeploy = async () => {
+    if (!videoId.trim()) {
+      setError("Please enter the Video GUID.");
+      return;
+    }
+
+    if (!libraryId.trim()) {
+      setError("Library ID is missing. Please select a library above.");
+      return;
+    }
+
+    if (!srclang.trim()) {
+      setError("Please enter a language code (e.g. en).");
+      return;
+    }
+
+    if (!editableCaptions.trim()) {
+      setError("No caption data to upload.");
+      return;
+    }
+
+    let content: string;
+    try {
+      content = convertCaptions(editableCaptions, uploadFormat);
+    } catch (e: any) {
+      setError(`Could not convert the captions to ${uploadFormat.toUpperCase()}. ${e.message}`);
+      return;
+    }
+
+    setStatus(BunnyStatus.UPLOADING);
+    setError(null);
+
+    try {
+      await uploadBunnyCaptions(libraryId.trim(), videoId.trim(), {
+        srclang,
+        label,
+        content
+      }, restoredFrom ?? undefined);
+      setStatus(BunnyStatus.SUCCESS);
+      setRestoredFrom(null);
+      onUploaded();
+    } catch (e: any) {
+      console.error("Caption Upload Caught Error:", e);
+      setStatus(BunnyStatus.ERROR);
+      setError(e.message);
+    }
+  };
+
+  return (
+    <div className="bg-slate-900 rounded-xl shadow-lg border border-slate-800 overflow-hidden mt-8">
+      <div className="px-6 py-4 border-b border-slate-800 bg-slate-800/50 flex justify-between items-center">
+        <h3 className="text-lg font-bold text-white">Deploy Captions</h3>
+        <span className="text-xs font-medium text-slate-400 bg-slate-800 px-2 py-1 rounded border border-slate-700">Uses the library &amp; video above</span>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <div className="flex justify-between">
+              <label className="block text-slate-400 text-xs font-bold mb-2">Language Code</label>
+              {languages && languages.length > 1 && (
+                <span className="flex gap-1">
+                  {languages.map(lang => (
+                    <button
+                      key={lang.srclang}
+                      onClick={() => { setSrclang(lang.srclang); setLabel(lang.label); }}
+                      title={lang.label}
+                      className={`text-[10px] font-mono font-bold px-1.5 py-0.5 rounded ${srclang === lang.srclang ? 'bg-brand-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                    >
+                      {lang.srclang}
+                    </button>
+                  ))}
+                </span>
+              )}
+            </div>
+            <input
+              type="text"
+              value={srclang}
+              onChange={(e) => setSrclang(e.target.value)}
+              placeholder="e.g. en"
+              className="w-full bg-slate-800 border border-slate-700 text-white rounded px-3 py-2 text-sm font-mono focus:outline-none focus:border-brand-500 transition-colors placeholder-slate-600"
+            />
+          </div>
+          <div>
+            <label className="block text-slate-400 text-xs font-bold mb-2">Label</label>
+            <input
+              type="text"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="e.g. English"
+              className="w-full bg-slate-800 border border-slate-700 text-white rounded px-3 py-2 text-sm focus:outline-none focus:border-brand-500 transition-colors placeholder-slate-600"
+            />
+          </div>
+        </div>
+
+        <div>
+          <div className="flex justify-between">
+            <label className="block text-slate-400 text-xs font-bold mb-2">Caption Data (SRT or VTT)</label>
+            <span className="flex items-center gap-1 text-[10px] text-slate-500">
+              Upload as
+              {(['srt', 'vtt'] as const).map(format => (
+                <button
+                  key={format}
+                  onClick={() => setUploadFormat(format)}
+                  className={`font-mono font-bold px-1.5 py-0.5 rounded ${uploadFormat === format ? 'bg-brand-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                >
+                  {format.toUpperCase()}
+                </button>
+              ))}
+            </span>
+          </div>
+          <textarea
+            value={editableCaptions}
+            onChange={(e) => { setEditableCaptions(e.target.value); setRestoredFrom(null); }}
+            placeholder={`Run "Clean Captions" above or paste SRT/VTT content here.`}
+            className="w-full h-40 bg-slate-800 border border-slate-700 text-slate-300 rounded px-4 py-3 text-sm font-mono focus:outline-none focus:border-brand-500 transition-colors custom-scrollbar placeholder-slate-600"
+          />
+        </div>
+
+        <div>
+          <button
+            onClick={handleDeploy}
+            disabled={status === BunnyStatus.UPLOADING}
+            className={`w-full py-3 rounded-lg font-bold text-white transition-all shadow-lg
+              ${status === BunnyStatus.UPLOADING
+                ? 'bg-brand-700 cursor-not-allowed opacity-75'
+                : 'bg-brand-600 hover:bg-brand-500 hover:shadow-brand-500/20 active:scale-95'}
+            `}
+          >
+            {status === BunnyStatus.UPLOADING ? (
+              <span className="flex items-center justify-center gap-2"><SpinnerIcon /> Uploading Captions...</span>
+            ) : (
+              restoredFrom ? "Restore Previous Captions" : "Upload Captions"
+            )}
+          </button>
+
+          {status === BunnyStatus.SUCCESS && (
+            <div className="mt-4 p-3 bg-green-500/10 border border-green-500/30 rounded text-green-400 text-sm flex items-center gap-2 animate-fade-in">
+              <CheckCircleIcon />
+              Captions ({srclang}) successfully uploaded to Bunny.net!
+            </div>
+          )}
+
+          {error && status !== BunnyStatus.SUCCESS && (
+            <div className="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded text-red-400 text-sm animate-fade-in break-words whitespace-pre-line">
+              <span className="font-bold block mb-1">Upload Failed:</span>
+              {error}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CaptionDeployPanel;
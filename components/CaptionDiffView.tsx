@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { DriftReport, DriftStatus } from '../services/captionDrift';
+import { formatTimestamp } from '../services/transcriptParser';
+
+interface CaptionDiffViewProps {
+  report: DriftReport;
+}
+
+const STATUS_STYLES: Record<DriftStatus, { label: string; className: string }> = {
+  ok: { label: 'OK', className: 'text-green-700 bg-green-100' },
+  lost: { label: 'Words Lost', className: 'text-red-700 bg-red-100' },
+  added: { label: 'Words Added', className: 'text-purple-700 bg-purple-100' },
+  rewritten: { label: 'Rewritten', className: 'text-amber-700 bg-amber-100' },
+};
+
+const CaptionDiffView: React.FC<CaptionDiffViewProps> = ({ report }) => {
+  const [showAll, setShowAll] = useState(false);
+  const segments = showAll ? report.segments : report.segments.filter(segment => segment.status !== 'ok');
+
+  return (
+    <div className="p-6 border-t border-slate-200">
+      <h5 className="text-xs uppercase tracking-wide text-slate-500 font-bold mb-3 flex justify-between items-center">
+        <span>Drift Check vs. Source Transcript</span>
+        <div className="flex items-center gap-2">
+          <span className={`px-2 py-0.5 rounded text-[10px] ${report.coverage >= 95 ? 'text-green-600 bg-green-50' : 'text-amber-600 bg-amber-50'}`}>
+            {report.coverage}% coverage
+          </span>
+          <span className="text-slate-600 bg-slate-100 px-2 py-0.5 rounded text-[10px]">
+            {report.flaggedCount} of {report.segments.length} segments flagged
+          </span>
+          <label className="flex items-center gap-1 normal-case tracking-normal font-medium text-slate-500 cursor-pointer">
+            <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+            Show all
+          </label>
+        </div>
+      </h5>
+
+      {segments.length === 0 ? (
+        <div className="bg-green-50 rounded border border-green-100 p-4 text-sm text-green-700 font-medium">
+          No drift detected. Every segment matches the source apart from filler words.
+        </div>
+      ) : (
+        <div className="space-y-2 overflow-auto max-h-96 custom-scrollbar">
+          {segments.map(segment => (
+            <div key={segment.startMs} className="bg-white rounded border border-slate-200 p-3 text-sm">
+              <div className="flex items-center gap-2 mb-2 text-xs">
+                <span className="font-mono font-bold text-slate-600">
+                  {formatTimestamp(segment.startMs)} – {formatTimestamp(segment.endMs)}
+                </span>
+                <span className={`px-1.5 py-0.5 rounded font-bold text-[10px] ${STATUS_STYLES[segment.status].className}`}>
+                  {STATUS_STYLES[segment.status].label}
+                </span>
+                <span className="text-slate-400">
+                  {segment.coverage}% kept · −{segment.lostWords} / +{segment.addedWords} words
+                </span>
+              </div>
+              <p className="text-slate-700 leading-relaxed">
+                {segment.diff.map((token, i) => (
+                  <React.Fragment key={i}>
+                    {token.type === 'same' && <span>{token.text}</span>}
+                    {token.type === 'removed' && <del className="text-red-600 bg-red-50 decoration-red-400">{token.text}</del>}
+                    {token.type === 'added' && <ins className="text-green-700 bg-green-50 no-underline">{token.text}</ins>}
+                    {' '}
+                  </React.Fragment>
+                ))}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+      <p className="text-slate-400 text-xs mt-2">
+        <del className="text-red-600">Struck</del> words are in the source but missing from the captions; <span className="text-green-700">green</span> words were added. Filler words are ignored.
+      </p>
+    </div>
+  );
+};
+
+export default CaptionDiffView;
@@ -0,0 +1,236 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { BunnyChapter, TranscriptCue } from '../types';
+import { formatTimestamp } from '../services/transcriptParser';
+
+interface ChapterTimelineProps {
+  chapters: BunnyChapter[];
+  durationSeconds: number;
+  cues: TranscriptCue[] | null;        // For transcript snippets at boundaries
+  disabledReason: string | null;       // Set when the data is too broken to edit visually
+  onChange: (chapters: BunnyChapter[]) => void;
+}
+
+const SEGMENT_COLORS = ['bg-purple-600', 'bg-indigo-600', 'bg-brand-600', 'bg-cyan-600'];
+const NUDGE_STEPS = [-10, -1, 1, 10];
+
+/**
+ * Text spoken around a point in time: the cue containing it plus the next one.
+ */
+const snippetAt = (cues: TranscriptCue[] | null, seconds: number): string => {
+  if (!cues || cues.length === 0) return '';
+  const ms = seconds * 1000;
+  let index = cues.findIndex(cue => cue.endMs > ms);
+  if (index === -1) index = cues.length - 1;
+  return cues.slice(index, index + 2).map(cue => cue.text).join(' ');
+};
+
+/**
+ * Text spoken just before a point in time (the two cues ending at or before it).
+ */
+const snippetBefore = (cues: TranscriptCue[] | null, seconds: number): string => {
+  if (!cues || cues.length === 0) return '';
+  const ms = seconds * 1000;
+  const before = cues.filter(cue => cue.startMs < ms);
+  return before.slice(-2).map(cue => cue.text).join(' ');
+};
+
+const ChapterTimeline: React.FC<ChapterTimelineProps> = ({ chapters, durationSeconds, cues, disabledReason, onChange }) => {
+  const [selected, setSelected] = useState<number | null>(null);
+  const [dragging, setDragging] = useState<number | null>(null); // Index of the chapter whose START is being dragged
+  const [draft, setDraft] = useState<BunnyChapter[] | null>(null);
+  const draftRef = useRef<BunnyChapter[] | null>(null); // Latest drag result, committed on release
+  const barRef = useRef<HTMLDivElement>(null);
+  // Title being typed; committed on blur/Enter so the CSV round-trip doesn't trim mid-word spaces
+  const [titleDraft, setTitleDraft] = useState('');
+
+  const view = draft || chapters;
+  const total = Math.max(durationSeconds, view.length > 0 ? view[view.length - 1].end : 1, 1);
+
+  // Keep the selection valid when rows are added or removed elsewhere
+  useEffect(() => {
+    if (selected !== null && selected >= chapters.length) setSelected(null);
+  }, [chapters.length, selected]);
+
+  const selectedTitle = selected !== null ? chapters[selected]?.title ?? '' : '';
+  useEffect(() => {
+    setTitleDraft(selectedTitle);
+  }, [selected, selectedTitle]);
+
+  // Drag a boundary: moves chapter[i].start and chapter[i - 1].end together
+  useEffect(() => {
+    if (dragging === null) return;
+
+    const secondsAt = (clientX: number): number => {
+      const rect = barRef.current!.getBoundingClientRect();
+      const ratio = Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1);
+      return Math.round(ratio * total);
+    };
+
+    const handleMove = (e: PointerEvent) => {
+      const base = chapters;
+      const prev = base[dragging - 1];
+      const current = base[dragging];
+      const value = Math.min(Math.max(secondsAt(e.clientX), prev.start + 1), current.end - 1);
+      draftRef.current = base.map((ch, i) =>
+        i === dragging - 1 ? { ...ch, end: value } : i === dragging ? { ...ch, start: value } : ch
+      );
+      setDraft(draftRef.current);
+    };
+
+    const handleUp = () => {
+      if (draftRef.current) onChange(draftRef.current);
+      draftRef.current = null;
+      setDraft(null);
+      setDragging(null);
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [dragging, chapters, total, onChange]);
+
+  if (disabledReason) {
+    return (
+      <div className="p-3 bg-slate-800/50 border border-slate-700 rounded-lg text-xs text-slate-400">
+        Timeline unavailable: {disabledReason}
+      </div>
+    );
+  }
+
+  if (chapters.length === 0) return null;
+
+  const update = (index: number, patch: Partial<BunnyChapter>) => {
+    onChange(chapters.map((ch, i) => (i === index ? { ...ch, ...patch } : ch)));
+  };
+
+  // Moves the start of `index` (and the end of the chapter before it)
+  const nudgeStart = (index: number, delta: number) => {
+    if (index === 0) return;
+    const prev = chapters[index - 1];
+    const current = chapters[index];
+    const value = Math.min(Math.max(current.start + delta, prev.start + 1), current.end - 1);
+    onChange(chapters.map((ch, i) =>
+      i === index - 1 ? { ...ch, end: value } : i === index ? { ...ch, start: value } : ch
+    ));
+  };
+
+  const split = (index: number) => {
+    const ch = chapters[index];
+    if (ch.end - ch.start < 2) return;
+    const middle = Math.floor((ch.start + ch.end) / 2);
+    const next = [...chapters];
+    next.splice(index, 1, { ...ch, end: middle }, { title: `${ch.title} (cont.)`, start: middle, end: ch.end });
+    onChange(next);
+    setSelected(index + 1);
+  };
+
+  const mergeWithNext = (index: number) => {
+    const ch = chapters[index];
+    const following = chapters[index + 1];
+    if (!following) return;
+    const next = [...chapters];
+    next.splice(index, 2, { ...ch, end: following.end });
+    onChange(next);
+  };
+
+  // Deleting hands the time to a neighbour so the chapters stay contiguous
+  const remove = (index: number) => {
+    const ch = chapters[index];
+    const next = chapters.filter((_, i) => i !== index);
+    if (index > 0) {
+      next[index - 1] = { ...next[index - 1], end: ch.end };
+    } else if (next.length > 0) {
+      next[0] = { ...next[0], start: ch.start };
+    }
+    onChange(next);
+    setSelected(null);
+  };
+
+  const active = selected !== null ? view[selected] : null;
+
+  return (
+    <div className="space-y-3">
+      {/* Bar */}
+      <div ref={barRef} className="relative h-12 bg-slate-800 rounded-lg overflow-hidden select-none touch-none">
+        {view.map((ch, i) => (
+          <button
+            key={i}
+            onClick={() => setSelected(i)}
+            title={`${formatTimestamp(ch.start * 1000)} – ${ch.title}`}
+            className={`absolute top-0 h-full px-2 text-left text-[11px] font-medium text-white truncate border-r border-slate-900 transition-opacity
+              ${SEGMENT_COLORS[i % SEGMENT_COLORS.length]} ${selected === i ? 'opacity-100 ring-2 ring-inset ring-white' : 'opacity-70 hover:opacity-90'}`}
+            style={{ left: `${(ch.start / total) * 100}%`, width: `${((ch.end - ch.start) / total) * 100}%` }}
+          >
+            {ch.title}
+          </button>
+        ))}
+        {view.slice(1).map((ch, i) => (
+          <div
+            key={`handle-${i + 1}`}
+            onPointerDown={(e) => { e.preventDefault(); setDragging(i + 1); }}
+            title={`${formatTimestamp(ch.start * 1000)}: "${snippetAt(cues, ch.start)}"`}
+            className={`absolute top-0 h-full w-2 -ml-1 cursor-ew-resize z-10 ${dragging === i + 1 ? 'bg-white' : 'bg-white/30 hover:bg-white'}`}
+            style={{ left: `${(ch.start / total) * 100}%` }}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between text-[10px] font-mono text-slate-500 -mt-2">
+        <span>00:00:00</span>
+        {dragging !== null && draft && (
+          <span className="text-white">{formatTimestamp(draft[dragging].start * 1000)}</span>
+        )}
+        <span>{formatTimestamp(total * 1000)}</span>
+      </div>
+
+      {/* Selected chapter */}
+      {active && selected !== null && (
+        <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 space-y-3 text-xs">
+          <div className="flex gap-2 items-center">
+            <span className="font-mono text-slate-400 flex-shrink-0">#{selected + 1}</span>
+            <input
+              type="text"
+              value={titleDraft}
+              onChange={(e) => setTitleDraft(e.target.value)}
+              onBlur={() => titleDraft.trim() !== active.title && update(selected, { title: titleDraft.trim() })}
+              onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+              className="flex-grow bg-slate-800 border border-slate-700 text-white rounded px-2 py-1 text-sm focus:outline-none focus:border-brand-500"
+            />
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2 text-slate-400">
+            <span className="font-mono text-slate-200">{formatTimestamp(active.start * 1000)} – {formatTimestamp(active.end * 1000)}</span>
+            {selected > 0 && (
+              <span className="flex items-center gap-1">
+                <span>Start:</span>
+                {NUDGE_STEPS.map(step => (
+                  <button key={step} onClick={() => nudgeStart(selected, step)} className="px-1.5 py-0.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 font-mono">
+                    {step > 0 ? `+${step}s` : `${step}s`}
+                  </button>
+                ))}
+              </span>
+            )}
+          </div>
+
+          {cues && (
+            <div className="space-y-1 text-slate-400">
+              <p><span className="font-bold text-slate-500">Before start:</span> …{snippetBefore(cues, active.start) || '(start of video)'}</p>
+              <p><span className="font-bold text-slate-500">At start:</span> {snippetAt(cues, active.start)}…</p>
+              <p><span className="font-bold text-slate-500">Before end:</span> …{snippetBefore(cues, active.end)}</p>
+            </div>
+          )}
+
+          <div className="flex gap-2 pt-1">
+            <button onClick={() => split(selected)} className="px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 font-bold">Split</button>
+            <button onClick={() => mergeWithNext(selected)} disabled={selected === chapters.length - 1} className="px-3 py-1.5 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 font-bold disabled:opacity-40">Merge with next</button>
+            <button onClick={() => remove(selected)} className="px-3 py-1.5 rounded bg-red-500/20 hover:bg-red-500/30 text-red-300 font-bold ml-auto">Delete</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChapterTimeline;
@@ -0,0 +1,134 @@
+import React, { useState, useRef } from 'react';
+import { BunnyChapter, ChapterTitleConfig, LocalizedTitles } from '../types';
+import { localizeChapterTitles } from '../services/aiService';
+import { AiError } from '../services/generationClient';
+import { translatedTitle, withTranslatedTitle, localizedChaptersCsv, localizedChaptersJson } from '../services/chapterTitles';
+import { downloadTextFile } from '../services/fileDownload';
+import { SpinnerIcon } from './Icon';
+
+interface ChapterTitlesPanelProps {
+  chapters: BunnyChapter[];               // Chapters in the editor; their titles are the source language
+  config: ChapterTitleConfig | null;      // Title languages of the selected library
+  localizedTitles: LocalizedTitles;
+  onChange: (localizedTitles: LocalizedTitles) => void;
+  fileBaseName: string;                   // Download names start with this
+}
+
+const ChapterTitlesPanel: React.FC<ChapterTitlesPanelProps> = ({ chapters, config, localizedTitles, onChange, fileBaseName }) => {
+  const [translating, setTranslating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  if (!config || chapters.length === 0) return null;
+
+  const [source, ...others] = config.languages;
+  const bunnyLabel = config.languages.find(lang => lang.srclang === config.bunnyLanguage)?.label ?? config.bunnyLanguage;
+
+  // Chapters sharing a source title share its translation
+  const setTitle = (srclang: string, sourceTitle: string, title: string) => {
+    onChange(withTranslatedTitle(localizedTitles, srclang, sourceTitle, title));
+  };
+
+  // Translates every non-source language again; hand edits in those languages are replaced
+  const handleTranslate = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setTranslating(true);
+    setError(null);
+    try {
+      const translated = await localizeChapterTitles(chapters.map(ch => ch.title), others, controller.signal);
+      onChange({ ...localizedTitles, ...translated });
+    } catch (e: any) {
+      if (!(e instanceof AiError && e.code === 'cancelled')) setError(e.message);
+    } finally {
+      if (controllerRef.current === controller) controllerRef.current = null;
+      setTranslating(false);
+    }
+  };
+
+  const missingCount = others.filter(lang => chapters.some(ch => !translatedTitle(localizedTitles, lang.srclang, ch.title))).length;
+
+  return (
+    <div className="mt-6 bg-slate-800/50 border border-slate-700 rounded-lg overflow-hidden text-sm">
+      <div className="px-3 py-2 border-b border-slate-700 flex justify-between items-center gap-3 text-xs">
+        <span className="font-bold text-slate-300">Chapter Title Languages</span>
+        <span className="text-slate-500">
+          Bunny.net shows <span className="font-bold text-slate-300">{bunnyLabel}</span>; the others are exported for the LMS
+        </span>
+      </div>
+
+      {others.length === 0 ? (
+        <p className="px-3 py-3 text-xs text-slate-500">
+          This library keeps chapter titles in {source.label} only. Add languages under <span className="font-mono">chapterTitles</span> in the library registry.
+        </p>
+      ) : (
+        <div className="p-3 space-y-3">
+          <div className="max-h-72 overflow-auto custom-scrollbar">
+            <table className="w-full text-left text-xs">
+              <thead className="text-slate-500">
+                <tr>
+                  {config.languages.map(lang => (
+                    <th key={lang.srclang} className="font-bold pb-2 pr-2">
+                      {lang.label} <span className="font-mono font-normal">{lang.srclang}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {chapters.map((ch, i) => (
+                  <tr key={i}>
+                    <td className="py-1 pr-2 text-slate-300 align-middle">{ch.title}</td>
+                    {others.map(lang => (
+                      <td key={lang.srclang} className="py-1 pr-2">
+                        <input
+                          value={localizedTitles[lang.srclang]?.[ch.title.trim()] ?? ''}
+                          onChange={e => setTitle(lang.srclang, ch.title, e.target.value)}
+                          placeholder={ch.title}
+                          disabled={translating}
+                          className="w-full bg-slate-800 border border-slate-700 text-slate-200 rounded px-2 py-1 focus:outline-none focus:border-brand-500 placeholder-slate-600"
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-wrap items-center gap-3 text-xs font-bold">
+            {translating ? (
+              <>
+                <span className="text-slate-400 flex items-center gap-1"><SpinnerIcon /> Translating titles...</span>
+                <button onClick={() => controllerRef.current?.abort()} className="text-slate-400 hover:text-white">Cancel</button>
+              </>
+            ) : (
+              <button onClick={handleTranslate} className="text-brand-500 hover:text-brand-100">
+                {missingCount > 0 ? 'Translate titles' : 'Translate titles again'}
+              </button>
+            )}
+            <span className="ml-auto flex items-center gap-3">
+              {config.languages.map(lang => (
+                <button
+                  key={lang.srclang}
+                  onClick={() => downloadTextFile(localizedChaptersCsv(chapters, localizedTitles, lang.srclang), `${fileBaseName}_chapters.${lang.srclang}.csv`)}
+                  className="text-slate-400 hover:text-white"
+                >
+                  CSV {lang.srclang}
+                </button>
+              ))}
+              <button
+                onClick={() => downloadTextFile(localizedChaptersJson(chapters, localizedTitles, source.srclang), `${fileBaseName}_chapters.json`)}
+                className="text-slate-400 hover:text-white"
+              >
+                JSON (all)
+              </button>
+            </span>
+          </div>
+          {error && <p className="text-xs text-red-400 break-words whitespace-pre-line">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChapterTitlesPanel;
@@ -0,0 +1,71 @@
+import React from 'react';
+import { BunnyChapter } from '../types';
+import { ChapterValidationResult } from '../services/chapterRules';
+
+interface ChapterValidationPanelProps {
+  chapters: BunnyChapter[];
+  result: ChapterValidationResult;
+  invalidLines: number[];    // CSV lines that could not be parsed
+  override: boolean;
+  onOverrideChange: (value: boolean) => void;
+  onAutoFix: () => void;
+}
+
+const ChapterValidationPanel: React.FC<ChapterValidationPanelProps> = ({
+  chapters, result, invalidLines, override, onOverrideChange, onAutoFix
+}) => {
+  const errorCount = result.errorCount + invalidLines.length;
+
+  if (chapters.length === 0 && invalidLines.length === 0) return null;
+
+  if (errorCount === 0 && result.warningCount === 0) {
+    return (
+      <div className="mt-3 p-3 bg-green-500/10 border border-green-500/30 rounded text-green-400 text-xs">
+        {chapters.length} chapters pass all checks.
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-3 bg-slate-800/50 border border-slate-700 rounded-lg overflow-hidden">
+      <div className="px-3 py-2 border-b border-slate-700 flex justify-between items-center">
+        <span className="text-xs font-bold text-slate-300">
+          <span className="text-red-400">{errorCount} errors</span>
+          <span className="text-slate-500"> · </span>
+          <span className="text-amber-400">{result.warningCount} warnings</span>
+        </span>
+        <button
+          onClick={onAutoFix}
+          className="text-xs font-bold text-brand-500 hover:text-brand-100 transition"
+        >
+          Auto-Fix Chapters
+        </button>
+      </div>
+
+      <ul className="max-h-40 overflow-auto custom-scrollbar divide-y divide-slate-700/50 text-xs">
+        {invalidLines.map(line => (
+          <li key={`line-${line}`} className="px-3 py-1.5 text-red-400">
+            <span className="font-mono font-bold mr-2">Line {line}</span>
+            Not in "start,end,title" format. It will be ignored.
+          </li>
+        ))}
+        {result.issues.map((issue, i) => (
+          <li key={i} className={`px-3 py-1.5 ${issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}>
+            <span className="font-mono font-bold mr-2">Row {issue.row + 1}</span>
+            <span className="text-slate-400 mr-2">{chapters[issue.row]?.title || '(untitled)'}:</span>
+            {issue.message}
+          </li>
+        ))}
+      </ul>
+
+      {errorCount > 0 && (
+        <label className="px-3 py-2 border-t border-slate-700 flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+          <input type="checkbox" checked={override} onChange={(e) => onOverrideChange(e.target.checked)} />
+          Deploy anyway, ignoring {errorCount} error{errorCount === 1 ? '' : 's'}
+        </label>
+      )}
+    </div>
+  );
+};
+
+export default ChapterValidationPanel;
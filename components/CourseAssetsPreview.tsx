@@ -0,0 +1,73 @@
+import React from 'react';
+import { CourseAssets } from '../types';
+import { formatTimestamp } from '../services/transcriptParser';
+
+interface CourseAssetsPreviewProps {
+  assets: CourseAssets;
+}
+
+const CourseAssetsPreview: React.FC<CourseAssetsPreviewProps> = ({ assets }) => (
+  <div className="grid grid-cols-1 md:grid-cols-2 divide-y md:divide-y-0 md:divide-x divide-slate-200">
+    {/* Description, chapter summaries and action items */}
+    <div className="p-6 space-y-6">
+      <div>
+        <h5 className="text-xs uppercase tracking-wide text-slate-500 font-bold mb-2">Session Title &amp; Description</h5>
+        <p className="font-semibold text-slate-800 mb-1">{assets.title}</p>
+        <p className="text-sm text-slate-700 whitespace-pre-line">{assets.description}</p>
+      </div>
+
+      <div>
+        <h5 className="text-xs uppercase tracking-wide text-slate-500 font-bold mb-2">Chapter Summaries</h5>
+        <div className="bg-white rounded border border-slate-200 p-4 text-sm text-slate-700 overflow-auto max-h-96 custom-scrollbar shadow-inner space-y-3">
+          {assets.chapterSummaries.map(ch => (
+            <div key={ch.start}>
+              <p className="font-mono">{formatTimestamp(ch.start * 1000)} – {ch.title}</p>
+              {ch.summary && <p className="text-xs text-slate-500 mt-0.5 pl-[5.5rem]">{ch.summary}</p>}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <h5 className="text-xs uppercase tracking-wide text-slate-500 font-bold mb-2">Action Items</h5>
+        {assets.actionItems.length > 0 ? (
+          <ul className="list-disc list-inside text-sm text-slate-700 space-y-1">
+            {assets.actionItems.map((item, i) => <li key={i}>{item}</li>)}
+          </ul>
+        ) : (
+          <p className="text-sm text-slate-400">The session does not assign any tasks.</p>
+        )}
+      </div>
+    </div>
+
+    {/* Quiz */}
+    <div className="p-6 bg-slate-50">
+      <h5 className="text-xs uppercase tracking-wide text-slate-500 font-bold mb-3">
+        Quiz ({assets.quiz.length} question{assets.quiz.length === 1 ? '' : 's'})
+      </h5>
+      <ol className="space-y-4 overflow-auto max-h-[40rem] custom-scrollbar text-sm">
+        {assets.quiz.map((q, i) => (
+          <li key={i} className="bg-white rounded border border-slate-200 p-4">
+            <p className="font-semibold text-slate-800">{i + 1}. {q.question}</p>
+            <ul className="mt-2 space-y-1">
+              {q.options.map((option, j) => (
+                <li
+                  key={j}
+                  className={`px-2 py-1 rounded ${j === q.answerIndex ? 'bg-green-50 text-green-700 font-medium' : 'text-slate-600'}`}
+                >
+                  {String.fromCharCode(65 + j)}. {option}
+                </li>
+              ))}
+            </ul>
+            <p className="mt-2 text-xs text-slate-500">
+              {q.explanation}{' '}
+              <span className="font-mono text-brand-600 bg-brand-50 px-1.5 py-0.5 rounded">{formatTimestamp(q.answerSeconds * 1000)}</span>
+            </p>
+          </li>
+        ))}
+      </ol>
+    </div>
+  </div>
+);
+
+export default CourseAssetsPreview;
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { AuthSession } from '../types';
+import { login } from '../services/authService';
+import { SpinnerIcon } from './Icon';
+
+interface LoginFormProps {
+  onSignedIn: (session: AuthSession) => void;
+}
+
+const LoginForm: React.FC<LoginFormProps> = ({ onSignedIn }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim() || !password) {
+      setError('Enter your username and password.');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+
+    try {
+      onSignedIn(await login(username.trim(), password));
+    } catch (err: any) {
+      setError(err.message);
+      setPassword('');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-sm mx-auto bg-white rounded-xl shadow-sm border border-slate-200 p-8 space-y-5">
+      <div>
+        <h2 className="text-2xl font-bold text-slate-800 tracking-tight">Sign in</h2>
+        <p className="text-slate-500 text-sm mt-1">Your account decides which libraries you can update.</p>
+      </div>
+
+      <div>
+        <label className="block text-slate-500 text-xs font-bold mb-2">Username</label>
+        <input
+          type="text"
+          autoComplete="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          className="w-full border border-slate-300 rounded px-3 py-2 text-sm focus:outline-none focus:border-brand-500"
+        />
+      </div>
+
+      <div>
+        <label className="block text-slate-500 text-xs font-bold mb-2">Password</label>
+        <input
+          type="password"
+          autoComplete="current-password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          className="w-full border border-slate-300 rounded px-3 py-2 text-sm focus:outline-none focus:border-brand-500"
+        />
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 bg-red-50 border-l-4 border-red-500 px-3 py-2 rounded-r">{error}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={loading}
+        className="w-full py-3 rounded-lg font-bold text-white bg-brand-600 hover:bg-brand-700 transition disabled:opacity-60 flex items-center justify-center gap-2"
+      >
+        {loading && <SpinnerIcon />} Sign in
+      </button>
+    </form>
+  );
+};
+
+export default LoginForm;
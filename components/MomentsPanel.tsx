@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { BunnyMoment, BunnyStatus } from '../types';
+import { updateBunnyVideoMetadata } from '../services/bunnyService';
+import { parseMomentsCsv, findInvalidMomentLines, momentsToCsv, validateMoments } from '../services/moments';
+import { formatTimestamp } from '../services/transcriptParser';
+import { CheckCircleIcon, SpinnerIcon } from './Icon';
+
+interface MomentsPanelProps {
+  libraryId: string;
+  videoId: string;
+  csv: string;                             // Editor text, "timestamp,label" per line
+  onChange: (csv: string) => void;
+  currentMoments: BunnyMoment[] | null;    // Moments on the video, once "Fetch Video Info" ran
+  durationSeconds: number | null;          // Video length (or transcript length) for range checks
+  readOnlyReason: string | null;           // Set when the user may not write to the library
+  onUpdated: () => void;
+}
+
+const MomentsPanel: React.FC<MomentsPanelProps> = ({ libraryId, videoId, csv, onChange, currentMoments, durationSeconds, readOnlyReason, onUpdated }) => {
+  const [status, setStatus] = useState<BunnyStatus>(BunnyStatus.IDLE);
+  const [error, setError] = useState<string | null>(null);
+
+  const moments = React.useMemo(() => parseMomentsCsv(csv), [csv]);
+  const invalidLines = React.useMemo(() => findInvalidMomentLines(csv), [csv]);
+  const validation = React.useMemo(() => validateMoments(moments, durationSeconds), [moments, durationSeconds]);
+  const errorCount = validation.errorCount + invalidLines.length;
+
+  // Edits after a deploy start a new one
+  useEffect(() => {
+    setStatus(BunnyStatus.IDLE);
+    setError(null);
+  }, [csv]);
+
+  const handleDeploy = async () => {
+    if (!libraryId.trim() || !videoId.trim()) {
+      setError('Select a library and enter the Video GUID above first.');
+      return;
+    }
+    if (errorCount > 0) {
+      setStatus(BunnyStatus.ERROR);
+      setError(`Moment data has ${errorCount} error${errorCount === 1 ? '' : 's'}. Fix them before deploying.`);
+      return;
+    }
+
+    setStatus(BunnyStatus.UPLOADING);
+    setError(null);
+    try {
+      // Sorted so the player's list matches the timeline
+      await updateBunnyVideoMetadata(libraryId, videoId, { moments: [...moments].sort((a, b) => a.timestamp - b.timestamp) });
+      setStatus(BunnyStatus.SUCCESS);
+      onUpdated();
+    } catch (e: any) {
+      console.error("Moments Update Caught Error:", e);
+      setStatus(BunnyStatus.ERROR);
+      setError(e.message);
+    }
+  };
+
+  const disabled = status === BunnyStatus.UPLOADING || !!readOnlyReason || (moments.length === 0 && !currentMoments?.length);
+
+  return (
+    <div className="bg-slate-900 rounded-xl shadow-lg border border-slate-800 overflow-hidden mt-8">
+      <div className="px-6 py-4 border-b border-slate-800 bg-slate-800/50 flex justify-between items-center">
+        <h3 className="text-lg font-bold text-white">Deploy Moments</h3>
+        <span className="text-xs font-medium text-slate-400 bg-slate-800 px-2 py-1 rounded border border-slate-700">Key highlights on the player timeline</span>
+      </div>
+
+      <div className="p-6 space-y-6">
+        <div>
+          <div className="flex justify-between items-end mb-2">
+            <label className="block text-slate-400 text-xs font-bold">Moment Data</label>
+            {currentMoments && (
+              <button
+                onClick={() => onChange(momentsToCsv(currentMoments))}
+                disabled={currentMoments.length === 0}
+                className="text-xs font-bold text-brand-500 hover:text-brand-100 disabled:text-slate-600"
+              >
+                {currentMoments.length === 0 ? 'Video has no moments' : `Load current from Bunny.net (${currentMoments.length})`}
+              </button>
+            )}
+          </div>
+          <textarea
+            value={csv}
+            onChange={(e) => onChange(e.target.value)}
+            placeholder={`Run "Key Moments" above or type one moment per line:\n00:07:00, Core idea explained\n960, Live demo starts`}
+            className="w-full h-40 bg-slate-800 border border-slate-700 text-slate-300 rounded px-4 py-3 text-sm font-mono focus:outline-none focus:border-brand-500 transition-colors custom-scrollbar placeholder-slate-600"
+          />
+          <p className="text-slate-500 text-xs mt-2">
+            Timestamp (seconds or HH:MM:SS), then the label. Deploying replaces all moments on the video; an empty list removes them.
+          </p>
+        </div>
+
+        {(invalidLines.length > 0 || validation.issues.length > 0) && (
+          <ul className="bg-slate-800/50 border border-slate-700 rounded-lg px-3 py-2 text-xs space-y-1">
+            {invalidLines.map(line => (
+              <li key={`line-${line}`} className="text-red-400">Line {line}: expected "timestamp, label".</li>
+            ))}
+            {validation.issues.map((issue, i) => (
+              <li key={i} className={issue.severity === 'error' ? 'text-red-400' : 'text-amber-400'}>
+                <span className="font-mono">{formatTimestamp(moments[issue.row].timestamp * 1000)}</span> {issue.message}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div>
+          <button
+            onClick={handleDeploy}
+            disabled={disabled}
+            className={`w-full py-3 rounded-lg font-bold text-white transition-all shadow-lg
+              ${disabled
+                ? 'bg-brand-700 cursor-not-allowed opacity-75'
+                : 'bg-brand-600 hover:bg-brand-500 hover:shadow-brand-500/20 active:scale-95'}
+            `}
+          >
+            {status === BunnyStatus.UPLOADING ? (
+              <span className="flex items-center justify-center gap-2"><SpinnerIcon /> Updating Moments...</span>
+            ) : (
+              moments.length === 0 ? 'Remove All Moments' : `Update ${moments.length} Moment${moments.length === 1 ? '' : 's'}`
+            )}
+          </button>
+          {readOnlyReason && <p className="mt-2 text-xs text-slate-500">{readOnlyReason}</p>}
+
+          {status === BunnyStatus.SUCCESS && (
+            <div className="mt-4 p-3 bg-green-500/10 border border-green-500/30 rounded text-green-400 text-sm flex items-center gap-2 animate-fade-in">
+              <CheckCircleIcon />
+              Moments successfully updated on Bunny.net!
+            </div>
+          )}
+
+          {error && status !== BunnyStatus.SUCCESS && (
+            <div className="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded text-red-400 text-sm animate-fade-in break-words whitespace-pre-line">
+              <span className="font-bold block mb-1">Update Failed:</span>
+              {error}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MomentsPanel;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { SrtValidationReport as Report } from '../services/srtValidator';
+import { CheckCircleIcon } from './Icon';
+
+interface SrtValidationReportProps {
+  report: Report;
+  onRepair: () => void;
+}
+
+const SrtValidationReport: React.FC<SrtValidationReportProps> = ({ report, onRepair }) => {
+  const isClean = report.issues.length === 0;
+
+  return (
+    <div className="flex flex-col h-full">
+      <h5 className="text-xs uppercase tracking-wide text-slate-500 font-bold mb-3 flex justify-between items-center">
+        <span>Validation Report</span>
+        <div className="flex gap-2">
+          <span className="text-red-600 bg-red-50 px-2 py-0.5 rounded text-[10px]">{report.errorCount} errors</span>
+          <span className="text-amber-600 bg-amber-50 px-2 py-0.5 rounded text-[10px]">{report.warningCount} warnings</span>
+        </div>
+      </h5>
+
+      {isClean ? (
+        <div className="bg-green-50 rounded border border-green-100 p-4 text-sm text-green-700 font-medium flex items-center gap-2">
+          <CheckCircleIcon />
+          All {report.cueCount} cues pass the caption rules.
+        </div>
+      ) : (
+        <>
+          <ul className="bg-white rounded border border-slate-200 divide-y divide-slate-100 text-sm overflow-auto max-h-80 custom-scrollbar shadow-inner">
+            {report.issues.map((issue, i) => (
+              <li key={i} className="px-4 py-2 flex items-start gap-3">
+                <span className={`flex-shrink-0 font-mono text-[10px] font-bold px-1.5 py-0.5 rounded mt-0.5
+                  ${issue.severity === 'error' ? 'text-red-700 bg-red-100' : 'text-amber-700 bg-amber-100'}`}>
+                  #{issue.cue}
+                </span>
+                <span className="text-slate-600">
+                  <span className="font-semibold text-slate-700">{issue.rule}</span> — {issue.message}
+                </span>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={onRepair}
+            className="mt-3 py-2.5 bg-slate-900 text-white rounded-lg font-medium hover:bg-slate-800 transition flex items-center justify-center"
+          >
+            Auto-Repair SRT
+          </button>
+          <p className="text-slate-400 text-xs mt-2">
+            Renumbers cues, clamps overlaps, re-wraps long lines and splits cues over 4 seconds. No text is removed.
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SrtValidationReport;
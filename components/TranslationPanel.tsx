@@ -0,0 +1,239 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CaptionFormat, CaptionLanguage, ChunkProgress, TranslatedCaptions } from '../types';
+import { translateCaptions } from '../services/aiService';
+import { AiError } from '../services/generationClient';
+import { uploadBunnyCaptions } from '../services/bunnyService';
+import { convertCaptions } from '../services/captionFormat';
+import { downloadTextFile } from '../services/fileDownload';
+import { CheckCircleIcon, SpinnerIcon } from './Icon';
+
+// Offered for every library, alongside the library's own caption languages
+const DEFAULT_TARGET_LANGUAGES: CaptionLanguage[] = [
+  { srclang: 'hi', label: 'Hindi' },
+  { srclang: 'es', label: 'Spanish' },
+];
+
+type TrackStatus = 'queued' | 'translating' | 'translated' | 'error' | 'uploading' | 'uploaded';
+
+interface TranslationTrack {
+  language: CaptionLanguage;
+  status: TrackStatus;
+  progress: ChunkProgress | null;
+  result: TranslatedCaptions | null;
+  error: string | null;
+}
+
+interface TranslationPanelProps {
+  libraryId: string;
+  videoId: string;
+  srtContent: string | null;            // Cleaned captions from Step 1, if any
+  languages: CaptionLanguage[] | null;  // Caption languages of the selected library; the first is the source
+  fileBaseName: string;                 // Download names start with this
+  onUploaded: () => void;
+}
+
+/**
+ * Library languages other than the source, then the defaults, without duplicate codes.
+ */
+const targetLanguagesFor = (languages: CaptionLanguage[] | null): CaptionLanguage[] => {
+  const source = languages?.[0]?.srclang ?? 'en';
+  const all = [...(languages ?? []), ...DEFAULT_TARGET_LANGUAGES];
+  return all.filter((lang, i) => lang.srclang !== source && all.findIndex(other => other.srclang === lang.srclang) === i);
+};
+
+const TranslationPanel: React.FC<TranslationPanelProps> = ({ libraryId, videoId, srtContent, languages, fileBaseName, onUploaded }) => {
+  const targets = targetLanguagesFor(languages);
+  const [selected, setSelected] = useState<string[]>([]);
+  const [tracks, setTracks] = useState<TranslationTrack[]>([]);
+  const [uploadFormat, setUploadFormat] = useState<'srt' | 'vtt'>('srt');
+  const [running, setRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  // New cleaned captions make earlier translations stale
+  useEffect(() => {
+    controllerRef.current?.abort();
+    setTracks([]);
+  }, [srtContent]);
+
+  const patchTrack = (srclang: string, patch: Partial<TranslationTrack>) => {
+    setTracks(prev => prev.map(track => (track.language.srclang === srclang ? { ...track, ...patch } : track)));
+  };
+
+  const toggleLanguage = (srclang: string) => {
+    setSelected(prev => (prev.includes(srclang) ? prev.filter(code => code !== srclang) : [...prev, srclang]));
+  };
+
+  // Languages run one after another; each one already translates its windows in parallel
+  const handleTranslate = async () => {
+    if (!srtContent) return;
+    const chosen = targets.filter(lang => selected.includes(lang.srclang));
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRunning(true);
+    setTracks(chosen.map(language => ({ language, status: 'queued', progress: null, result: null, error: null })));
+
+    for (const language of chosen) {
+      if (controller.signal.aborted) break;
+      patchTrack(language.srclang, { status: 'translating' });
+      try {
+        const result = await translateCaptions(srtContent, language, progress => patchTrack(language.srclang, { progress }), controller.signal);
+        patchTrack(language.srclang, { status: 'translated', result });
+      } catch (e: any) {
+        if (e instanceof AiError && e.code === 'cancelled') break;
+        patchTrack(language.srclang, { status: 'error', error: e.message });
+      }
+    }
+
+    if (controller.signal.aborted) {
+      setTracks(prev => prev.filter(track => track.result));
+    }
+    if (controllerRef.current === controller) controllerRef.current = null;
+    setRunning(false);
+  };
+
+  const handleUpload = async (track: TranslationTrack) => {
+    if (!track.result) return;
+    if (!libraryId.trim() || !videoId.trim()) {
+      patchTrack(track.language.srclang, { error: 'Select a library and video above first.' });
+      return;
+    }
+
+    patchTrack(track.language.srclang, { status: 'uploading', error: null });
+    try {
+      await uploadBunnyCaptions(libraryId.trim(), videoId.trim(), {
+        srclang: track.result.srclang,
+        label: track.result.label,
+        content: convertCaptions(track.result.srtContent, uploadFormat)
+      });
+      patchTrack(track.language.srclang, { status: 'uploaded' });
+      onUploaded();
+    } catch (e: any) {
+      console.error("Translated Caption Upload Caught Error:", e);
+      patchTrack(track.language.srclang, { status: 'translated', error: e.message });
+    }
+  };
+
+  const download = (result: TranslatedCaptions, format: CaptionFormat) => {
+    downloadTextFile(convertCaptions(result.srtContent, format), `${fileBaseName}_cleaned_cc.${result.srclang}.${format}`);
+  };
+
+  return (
+    <div className="bg-slate-900 rounded-xl shadow-lg border border-slate-800 overflow-hidden mt-8">
+      <div className="px-6 py-4 border-b border-slate-800 bg-slate-800/50 flex justify-between items-center">
+        <h3 className="text-lg font-bold text-white">Translate Captions</h3>
+        <span className="text-xs font-medium text-slate-400 bg-slate-800 px-2 py-1 rounded border border-slate-700">Same cues &amp; timings as the cleaned captions</span>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {!srtContent ? (
+          <p className="text-sm text-slate-500">Run "Clean Captions" above to translate the result.</p>
+        ) : (
+          <>
+            <div>
+              <label className="block text-slate-400 text-xs font-bold mb-2">Target Languages</label>
+              <div className="flex flex-wrap gap-2">
+                {targets.map(lang => (
+                  <label
+                    key={lang.srclang}
+                    className={`flex items-center gap-2 px-3 py-1.5 rounded border text-sm cursor-pointer transition-colors
+                      ${selected.includes(lang.srclang) ? 'bg-brand-600/20 border-brand-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}
+                  >
+                    <input type="checkbox" className="hidden" checked={selected.includes(lang.srclang)} onChange={() => toggleLanguage(lang.srclang)} disabled={running} />
+                    {lang.label} <span className="font-mono text-xs text-slate-500">{lang.srclang}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleTranslate}
+                disabled={running || selected.length === 0}
+                className={`flex-1 py-3 rounded-lg font-bold text-white transition-all shadow-lg
+                  ${running || selected.length === 0
+                    ? 'bg-brand-700 cursor-not-allowed opacity-75'
+                    : 'bg-brand-600 hover:bg-brand-500 hover:shadow-brand-500/20 active:scale-95'}
+                `}
+              >
+                {running ? (
+                  <span className="flex items-center justify-center gap-2"><SpinnerIcon /> Translating...</span>
+                ) : (
+                  `Translate into ${selected.length || 'selected'} language${selected.length === 1 ? '' : 's'}`
+                )}
+              </button>
+              {running && (
+                <button
+                  onClick={() => controllerRef.current?.abort()}
+                  className="px-5 py-3 rounded-lg border border-slate-700 text-slate-300 font-bold hover:bg-slate-800 transition"
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </>
+        )}
+
+        {tracks.length > 0 && (
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg overflow-hidden text-sm">
+            <div className="px-3 py-2 border-b border-slate-700 flex justify-between items-center text-xs">
+              <span className="font-bold text-slate-300">Translated Tracks</span>
+              <span className="flex items-center gap-1 text-[10px] text-slate-500">
+                Upload as
+                {(['srt', 'vtt'] as const).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => setUploadFormat(format)}
+                    className={`font-mono font-bold px-1.5 py-0.5 rounded ${uploadFormat === format ? 'bg-brand-600 text-white' : 'bg-slate-800 text-slate-400 hover:text-white'}`}
+                  >
+                    {format.toUpperCase()}
+                  </button>
+                ))}
+              </span>
+            </div>
+            <ul className="divide-y divide-slate-700/50">
+              {tracks.map(track => (
+                <li key={track.language.srclang} className="px-3 py-2">
+                  <div className="flex justify-between items-center gap-3">
+                    <span className="text-slate-200">
+                      {track.language.label} <span className="font-mono text-xs text-slate-500">{track.language.srclang}</span>
+                    </span>
+
+                    <span className="flex items-center gap-3 text-xs font-bold">
+                      {track.status === 'queued' && <span className="text-slate-500">Queued</span>}
+                      {track.status === 'translating' && (
+                        <span className="text-slate-400 flex items-center gap-1">
+                          <SpinnerIcon />
+                          {track.progress ? `${track.progress.completed} of ${track.progress.total} parts` : 'Starting...'}
+                        </span>
+                      )}
+                      {track.result && (['srt', 'vtt', 'txt'] as CaptionFormat[]).map(format => (
+                        <button key={format} onClick={() => download(track.result!, format)} className="text-slate-400 hover:text-white">
+                          {format.toUpperCase()}
+                        </button>
+                      ))}
+                      {(track.status === 'translated' || track.status === 'uploading') && (
+                        <button
+                          onClick={() => handleUpload(track)}
+                          disabled={track.status === 'uploading'}
+                          className="text-brand-500 hover:text-brand-100 disabled:opacity-50"
+                        >
+                          {track.status === 'uploading' ? 'Uploading...' : `Upload ${track.language.srclang} track`}
+                        </button>
+                      )}
+                      {track.status === 'uploaded' && (
+                        <span className="text-green-400 flex items-center gap-1"><CheckCircleIcon /> Uploaded</span>
+                      )}
+                    </span>
+                  </div>
+                  {track.error && <p className="mt-1 text-xs text-red-400 break-words whitespace-pre-line">{track.error}</p>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default TranslationPanel;
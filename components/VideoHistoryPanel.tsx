@@ -0,0 +1,127 @@
+import React, { useState, useEffect } from 'react';
+import { AuditEntry, CaptionRestoreRequest } from '../types';
+import { fetchAuditLog, isVideoGuid } from '../services/bunnyService';
+
+interface VideoHistoryPanelProps {
+  libraryId: string;
+  videoId: string;
+  refreshKey: number;  // Bumped after each successful deploy to reload the list
+  onRestoreChapters: (entry: AuditEntry) => void;
+  onRestoreCaptions: (request: CaptionRestoreRequest) => void;
+}
+
+/**
+ * What the caption track looked like before an upload replaced it.
+ */
+const describeCaptionSnapshot = (entry: AuditEntry) => {
+  const track = entry.previous?.captions.find(c => c.srclang === entry.payload.srclang);
+  if (!entry.previous) return { track: null, note: 'Video could not be read before this upload.' };
+  if (!track) return { track: null, note: 'Track was new; nothing to restore.' };
+  if (!track.content) return { track: null, note: 'Previous file not kept (library has no cdnHostname).' };
+  return { track, note: null };
+};
+
+const VideoHistoryPanel: React.FC<VideoHistoryPanelProps> = ({ libraryId, videoId, refreshKey, onRestoreChapters, onRestoreCaptions }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [ephemeral, setEphemeral] = useState(false);
+  const [restoreBlockedReason, setRestoreBlockedReason] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!libraryId.trim() || !isVideoGuid(videoId)) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    fetchAuditLog({ libraryId, videoId, limit: 20 })
+      .then(result => {
+        if (cancelled) return;
+        setEntries(result.entries);
+        setEphemeral(result.ephemeral);
+        setRestoreBlockedReason(result.restoreBlockedReason);
+      })
+      .catch((e: any) => !cancelled && setError(e.message))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => { cancelled = true; };
+  }, [libraryId, videoId, refreshKey]);
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg overflow-hidden text-xs">
+      <div className="px-3 py-2 border-b border-slate-700 flex justify-between items-center">
+        <span className="font-bold text-slate-300">Update History</span>
+        {loading && <span className="text-slate-500">Loading...</span>}
+      </div>
+
+      {error && <p className="px-3 py-2 text-red-400 whitespace-pre-line">{error}</p>}
+      {!error && ephemeral && (
+        <p className="px-3 py-2 text-amber-400 border-b border-slate-700">
+          {restoreBlockedReason ?? "The audit log is kept in the server's temp dir; entries can disappear after a restart."}
+        </p>
+      )}
+
+      {!error && !loading && entries.length === 0 && (
+        <p className="px-3 py-2 text-slate-500">No updates recorded for this video yet.</p>
+      )}
+
+      <ul className="max-h-56 overflow-auto custom-scrollbar divide-y divide-slate-700/50">
+        {entries.map(entry => {
+          const captionSnapshot = entry.action === 'captions' ? describeCaptionSnapshot(entry) : null;
+          // Metadata updates can carry chapters too; those are restorable like a chapter update
+          const replacedChapters = entry.action !== 'captions' && !!entry.payload.chapters;
+
+          return (
+            <li key={entry.id} className="px-3 py-2 flex justify-between items-start gap-3">
+              <div className="min-w-0 text-slate-400">
+                <p>
+                  <span className="text-slate-200">{new Date(entry.timestamp).toLocaleString()}</span>
+                  {' · '}{entry.username}
+                  {' · '}{entry.action === 'chapters'
+                    ? `${entry.payload.chapters?.length ?? 0} chapters`
+                    : entry.action === 'moments'
+                      ? `${entry.payload.moments?.length ?? 0} moments`
+                      : entry.action === 'metadata'
+                        ? `metadata (${Object.keys(entry.payload).join(', ')})`
+                        : `captions (${entry.payload.srclang})`}
+                  {entry.restoredFrom && <span className="text-brand-500"> · restore</span>}
+                  {!entry.success && <span className="text-red-400"> · failed ({entry.upstreamStatus})</span>}
+                </p>
+                {captionSnapshot?.note && <p className="text-slate-500">{captionSnapshot.note}</p>}
+              </div>
+
+              {replacedChapters && entry.previous && entry.previous.chapters.length === 0 && (
+                <span className="flex-shrink-0 text-slate-500">Had no chapters before</span>
+              )}
+              {replacedChapters && entry.previous && entry.previous.chapters.length > 0 && !restoreBlockedReason && (
+                <button
+                  onClick={() => onRestoreChapters(entry)}
+                  className="flex-shrink-0 font-bold text-brand-500 hover:text-brand-100"
+                  title="Load the chapters this update replaced into the editor"
+                >
+                  Restore previous ({entry.previous.chapters.length})
+                </button>
+              )}
+              {captionSnapshot?.track && !restoreBlockedReason && (
+                <button
+                  onClick={() => onRestoreCaptions({
+                    entryId: entry.id,
+                    srclang: captionSnapshot.track!.srclang,
+                    label: captionSnapshot.track!.label,
+                    content: captionSnapshot.track!.content!
+                  })}
+                  className="flex-shrink-0 font-bold text-brand-500 hover:text-brand-100"
+                  title="Load the caption file this upload replaced into the caption panel"
+                >
+                  Restore previous
+                </button>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default VideoHistoryPanel;
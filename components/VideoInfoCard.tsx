@@ -0,0 +1,70 @@
+import React from 'react';
+import { BunnyVideoInfo } from '../types';
+import { describeVideoStatus } from '../services/bunnyService';
+import { formatTimestamp } from '../services/transcriptParser';
+
+interface VideoInfoCardProps {
+  video: BunnyVideoInfo;
+  transcriptDurationMs: number | null; // To warn when the transcript and video lengths disagree
+  onLoadChapters: (video: BunnyVideoInfo) => void;
+}
+
+// Difference (in seconds) above which the transcript probably belongs to a different cut of the video
+const LENGTH_MISMATCH_SECONDS = 60;
+
+const VideoInfoCard: React.FC<VideoInfoCardProps> = ({ video, transcriptDurationMs, onLoadChapters }) => {
+  const isReady = video.status === 4;
+  const transcriptSeconds = transcriptDurationMs !== null ? Math.floor(transcriptDurationMs / 1000) : null;
+  const lengthMismatch = transcriptSeconds !== null && video.lengthSeconds > 0 && Math.abs(transcriptSeconds - video.lengthSeconds) > LENGTH_MISMATCH_SECONDS;
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg p-4 text-sm space-y-3">
+      <div className="flex justify-between items-start gap-4">
+        <div className="min-w-0">
+          <p className="text-white font-bold truncate" title={video.title}>{video.title || '(untitled video)'}</p>
+          <p className="text-slate-500 text-xs font-mono mt-0.5">{video.guid}</p>
+        </div>
+        <span className={`flex-shrink-0 text-[10px] uppercase font-bold tracking-wider px-2 py-1 rounded border
+          ${isReady ? 'text-green-400 border-green-500/30 bg-green-500/10' : 'text-amber-400 border-amber-500/30 bg-amber-500/10'}`}>
+          {describeVideoStatus(video.status)}
+          {!isReady && video.encodeProgress !== null && ` · ${video.encodeProgress}%`}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-3 gap-3 text-xs">
+        <div>
+          <p className="text-slate-500 font-bold">Length</p>
+          <p className="text-slate-200 font-mono">{formatTimestamp(video.lengthSeconds * 1000)} ({video.lengthSeconds}s)</p>
+        </div>
+        <div>
+          <p className="text-slate-500 font-bold">Existing Chapters</p>
+          <p className="text-slate-200">
+            {video.chapters.length}
+            {video.chapters.length > 0 && (
+              <button onClick={() => onLoadChapters(video)} className="ml-2 text-brand-500 hover:text-brand-100 font-bold">
+                Load into editor
+              </button>
+            )}
+          </p>
+        </div>
+        <div>
+          <p className="text-slate-500 font-bold">Caption Tracks</p>
+          <p className="text-slate-200">
+            {video.captions.length === 0 ? 'None' : video.captions.map(c => (
+              <span key={c.srclang} className="inline-block mr-1 px-1.5 py-0.5 rounded bg-slate-700 font-mono" title={c.label}>{c.srclang}</span>
+            ))}
+          </p>
+        </div>
+      </div>
+
+      {lengthMismatch && (
+        <p className="text-amber-400 text-xs">
+          The transcript ends at {formatTimestamp(transcriptDurationMs!)} but the video is {formatTimestamp(video.lengthSeconds * 1000)} long. Check that you selected the right video.
+        </p>
+      )}
+      <p className="text-slate-500 text-xs">Chapter checks and the final chapter end now use the real video length.</p>
+    </div>
+  );
+};
+
+export default VideoInfoCard;
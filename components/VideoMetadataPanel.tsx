@@ -0,0 +1,260 @@
+import React, { useState, useEffect } from 'react';
+import { BunnyChapter, BunnyMoment, BunnyStatus, BunnyVideoInfo, VideoMetadataUpdate } from '../types';
+import { updateBunnyVideoMetadata } from '../services/bunnyService';
+import { descriptionOf, withDescription, sameMoments, DESCRIPTION_TAG } from '../services/videoMetadata';
+import { formatTimestamp } from '../services/transcriptParser';
+import { CheckCircleIcon, SpinnerIcon } from './Icon';
+
+type MetadataField = 'title' | 'description' | 'moments' | 'chapters';
+
+interface VideoMetadataPanelProps {
+  libraryId: string;
+  videoId: string;
+  video: BunnyVideoInfo | null;            // Current values, from "Fetch Video Info"
+  loading: boolean;
+  onFetchCurrent: () => void;
+  proposedTitle: string | null;            // From Course Assets, if generated
+  proposedDescription: string | null;
+  proposedMoments: BunnyMoment[] | null;    // From the moments editor, when it has any
+  momentsBlockedReason: string | null;     // Set while the moments editor has errors or unreadable lines
+  chapters: BunnyChapter[];                // Chapter editor content, in the language Bunny.net shows
+  chaptersBlockedReason: string | null;    // Set while the chapter rules block a deploy
+  readOnlyReason: string | null;           // Set when the user may not write to the library
+  onUpdated: () => void;
+}
+
+const MomentList: React.FC<{ moments: BunnyMoment[] }> = ({ moments }) =>
+  moments.length === 0 ? (
+    <span className="text-slate-500 italic">None</span>
+  ) : (
+    <ol className="space-y-0.5 font-mono max-h-32 overflow-auto custom-scrollbar">
+      {moments.map((m, i) => (
+        <li key={i}><span className="text-slate-500">{formatTimestamp(m.timestamp * 1000)}</span> {m.label}</li>
+      ))}
+    </ol>
+  );
+
+const ChapterSummary: React.FC<{ chapters: BunnyChapter[] }> = ({ chapters }) =>
+  chapters.length === 0 ? (
+    <span className="text-slate-500 italic">None</span>
+  ) : (
+    <span>{chapters.length} chapters, first "{chapters[0].title}"</span>
+  );
+
+const sameChapters = (a: BunnyChapter[], b: BunnyChapter[]): boolean =>
+  a.length === b.length && a.every((ch, i) => ch.start === b[i].start && ch.end === b[i].end && ch.title === b[i].title);
+
+const VideoMetadataPanel: React.FC<VideoMetadataPanelProps> = ({
+  libraryId, videoId, video, loading, onFetchCurrent,
+  proposedTitle, proposedDescription, proposedMoments, momentsBlockedReason, chapters, chaptersBlockedReason, readOnlyReason, onUpdated
+}) => {
+  const [title, setTitle] = useState('');
+  const [description, setDescription] = useState('');
+  const [selected, setSelected] = useState<MetadataField[]>([]);
+  const [status, setStatus] = useState<BunnyStatus>(BunnyStatus.IDLE);
+  const [error, setError] = useState<string | null>(null);
+
+  // New proposals (or a different video) start a fresh comparison, preselecting what would change
+  useEffect(() => {
+    setTitle(proposedTitle ?? video?.title ?? '');
+    setDescription(proposedDescription ?? (video ? descriptionOf(video.metaTags) : ''));
+    setStatus(BunnyStatus.IDLE);
+    setError(null);
+
+    const changed: MetadataField[] = [];
+    if (video && proposedTitle?.trim() && proposedTitle.trim() !== video.title) changed.push('title');
+    if (video && proposedDescription?.trim() && proposedDescription.trim() !== descriptionOf(video.metaTags).trim()) changed.push('description');
+    setSelected(prev => [...changed, ...prev.filter(field => field === 'moments')]);
+  }, [video?.guid, proposedTitle, proposedDescription]);
+
+  // Moments change with every edit in the moments editor; only their own selection follows them
+  useEffect(() => {
+    const changed = !!video && !!proposedMoments && !sameMoments(proposedMoments, video.moments);
+    setSelected(prev => [...prev.filter(field => field !== 'moments'), ...(changed ? ['moments' as const] : [])]);
+  }, [video?.guid, proposedMoments]);
+
+  const currentDescription = video ? descriptionOf(video.metaTags) : '';
+  const otherTagCount = video ? video.metaTags.filter(tag => tag.property !== DESCRIPTION_TAG).length : 0;
+
+  // Which fields differ from Bunny.net and can be sent; the rest are shown but not selectable
+  const available: Record<MetadataField, boolean> = {
+    title: !!video && !!title.trim() && title.trim() !== video.title,
+    description: !!video && !!description.trim() && description.trim() !== currentDescription.trim(),
+    moments: !!video && !!proposedMoments && !momentsBlockedReason && !sameMoments(proposedMoments, video.moments),
+    chapters: !!video && chapters.length > 0 && !chaptersBlockedReason && !sameChapters(chapters, video.chapters),
+  };
+
+  const isSelected = (field: MetadataField) => available[field] && selected.includes(field);
+
+  const toggle = (field: MetadataField) => {
+    setSelected(prev => (prev.includes(field) ? prev.filter(f => f !== field) : [...prev, field]));
+  };
+
+  const handleUpdate = async () => {
+    if (!video) return;
+    if (!libraryId.trim() || !videoId.trim()) {
+      setError('Select a library and video above first.');
+      return;
+    }
+
+    const update: VideoMetadataUpdate = {};
+    if (isSelected('title')) update.title = title.trim();
+    if (isSelected('description')) update.metaTags = withDescription(video.metaTags, description.trim());
+    if (isSelected('moments') && proposedMoments) update.moments = proposedMoments;
+    if (isSelected('chapters')) update.chapters = chapters;
+
+    setStatus(BunnyStatus.UPLOADING);
+    setError(null);
+    try {
+      await updateBunnyVideoMetadata(libraryId, videoId, update);
+      setStatus(BunnyStatus.SUCCESS);
+      onUpdated();
+    } catch (e: any) {
+      console.error("Metadata Update Caught Error:", e);
+      setStatus(BunnyStatus.ERROR);
+      setError(e.message);
+    }
+  };
+
+  const selectedCount = (Object.keys(available) as MetadataField[]).filter(isSelected).length;
+
+  const rows: { field: MetadataField; label: string; current: React.ReactNode; proposed: React.ReactNode; note: string | null }[] = video ? [
+    {
+      field: 'title',
+      label: 'Title',
+      current: video.title || <span className="text-slate-500 italic">Empty</span>,
+      proposed: (
+        <input
+          value={title}
+          onChange={e => setTitle(e.target.value)}
+          className="w-full bg-slate-800 border border-slate-700 text-slate-200 rounded px-2 py-1 focus:outline-none focus:border-brand-500"
+        />
+      ),
+      note: null,
+    },
+    {
+      field: 'description',
+      label: 'Description',
+      current: currentDescription || <span className="text-slate-500 italic">Empty</span>,
+      proposed: (
+        <textarea
+          value={description}
+          onChange={e => setDescription(e.target.value)}
+          rows={4}
+          className="w-full bg-slate-800 border border-slate-700 text-slate-200 rounded px-2 py-1 focus:outline-none focus:border-brand-500 custom-scrollbar"
+        />
+      ),
+      note: otherTagCount > 0 ? `Stored as the "${DESCRIPTION_TAG}" meta tag; the other ${otherTagCount} tag${otherTagCount === 1 ? ' is' : 's are'} kept.` : `Stored as the "${DESCRIPTION_TAG}" meta tag.`,
+    },
+    {
+      field: 'moments',
+      label: 'Moments',
+      current: <MomentList moments={video.moments} />,
+      proposed: proposedMoments ? <MomentList moments={proposedMoments} /> : <span className="text-slate-500 italic">None proposed</span>,
+      note: momentsBlockedReason,
+    },
+    {
+      field: 'chapters',
+      label: 'Chapters',
+      current: <ChapterSummary chapters={video.chapters} />,
+      proposed: <ChapterSummary chapters={chapters} />,
+      note: chaptersBlockedReason,
+    },
+  ] : [];
+
+  return (
+    <div className="bg-slate-900 rounded-xl shadow-lg border border-slate-800 overflow-hidden mt-8">
+      <div className="px-6 py-4 border-b border-slate-800 bg-slate-800/50 flex justify-between items-center">
+        <h3 className="text-lg font-bold text-white">Video Metadata</h3>
+        <span className="text-xs font-medium text-slate-400 bg-slate-800 px-2 py-1 rounded border border-slate-700">Title, description, moments &amp; chapters in one update</span>
+      </div>
+
+      <div className="p-6 space-y-6">
+        {!video ? (
+          <div className="flex justify-between items-center gap-4">
+            <p className="text-sm text-slate-500">Fetch the video's current values to compare them with the proposed ones.</p>
+            <button
+              onClick={onFetchCurrent}
+              disabled={loading || !videoId.trim()}
+              className="flex-shrink-0 px-4 py-2 bg-slate-800 border border-slate-700 text-slate-300 rounded text-sm font-bold hover:border-brand-500 hover:text-white transition disabled:opacity-50"
+            >
+              {loading ? 'Fetching...' : 'Fetch Current Values'}
+            </button>
+          </div>
+        ) : (
+          <div className="bg-slate-800/50 border border-slate-700 rounded-lg overflow-hidden text-xs">
+            <div className="grid grid-cols-[8rem_1fr_1fr] gap-3 px-3 py-2 border-b border-slate-700 font-bold text-slate-400">
+              <span>Field</span>
+              <span className="flex justify-between">
+                Current on Bunny.net
+                <button onClick={onFetchCurrent} disabled={loading} className="font-bold text-brand-500 hover:text-brand-100 disabled:opacity-50">
+                  {loading ? 'Refreshing...' : 'Refresh'}
+                </button>
+              </span>
+              <span>Proposed</span>
+            </div>
+            <ul className="divide-y divide-slate-700/50">
+              {rows.map(row => (
+                <li key={row.field} className="grid grid-cols-[8rem_1fr_1fr] gap-3 px-3 py-2 text-slate-300">
+                  <label className={`flex items-start gap-2 font-bold ${available[row.field] ? 'cursor-pointer text-slate-200' : 'text-slate-500'}`}>
+                    <input
+                      type="checkbox"
+                      checked={isSelected(row.field)}
+                      onChange={() => toggle(row.field)}
+                      disabled={!available[row.field] || status === BunnyStatus.UPLOADING}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      {row.label}
+                      {!available[row.field] && <span className="block font-normal text-[10px]">No change</span>}
+                    </span>
+                  </label>
+                  <div className="min-w-0 break-words whitespace-pre-line">{row.current}</div>
+                  <div className="min-w-0 break-words">
+                    {row.proposed}
+                    {row.note && <p className="mt-1 text-[10px] text-slate-500">{row.note}</p>}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div>
+          <button
+            onClick={handleUpdate}
+            disabled={!video || selectedCount === 0 || !!readOnlyReason || status === BunnyStatus.UPLOADING}
+            className={`w-full py-3 rounded-lg font-bold text-white transition-all shadow-lg
+              ${!video || selectedCount === 0 || readOnlyReason || status === BunnyStatus.UPLOADING
+                ? 'bg-brand-700 cursor-not-allowed opacity-75'
+                : 'bg-brand-600 hover:bg-brand-500 hover:shadow-brand-500/20 active:scale-95'}
+            `}
+          >
+            {status === BunnyStatus.UPLOADING ? (
+              <span className="flex items-center justify-center gap-2"><SpinnerIcon /> Updating Bunny.net...</span>
+            ) : (
+              `Update ${selectedCount || 'selected'} field${selectedCount === 1 ? '' : 's'}`
+            )}
+          </button>
+          {readOnlyReason && <p className="mt-2 text-xs text-slate-500">{readOnlyReason}</p>}
+
+          {status === BunnyStatus.SUCCESS && (
+            <div className="mt-4 p-3 bg-green-500/10 border border-green-500/30 rounded text-green-400 text-sm flex items-center gap-2 animate-fade-in">
+              <CheckCircleIcon />
+              Video metadata successfully updated on Bunny.net!
+            </div>
+          )}
+
+          {error && status !== BunnyStatus.SUCCESS && (
+            <div className="mt-4 p-3 bg-red-500/10 border border-red-500/30 rounded text-red-400 text-sm animate-fade-in break-words whitespace-pre-line">
+              <span className="font-bold block mb-1">Update Failed:</span>
+              {error}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default VideoMetadataPanel;
@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react';
+import { BunnyVideoSummary } from '../types';
+import { listBunnyVideos, describeVideoStatus } from '../services/bunnyService';
+import { suggestVideoMatches, tokenize, VideoMatch } from '../services/videoMatch';
+import { formatTimestamp } from '../services/transcriptParser';
+import { SpinnerIcon } from './Icon';
+
+interface VideoPickerProps {
+  libraryId: string;
+  fileName: string | null;    // Transcript file name, used for suggestions
+  fileDate: number | null;    // Transcript last-modified time (epoch ms)
+  selectedVideoId: string;
+  onSelect: (video: BunnyVideoSummary) => void;
+}
+
+const PAGE_SIZE = 10;
+const SEARCH_DEBOUNCE_MS = 400;
+// Newest videos scanned for suggestions (one request, Bunny's maximum page size)
+const SUGGESTION_POOL_SIZE = 100;
+
+const formatDate = (iso: string | null): string => (iso ? new Date(iso).toLocaleDateString() : '—');
+
+const VideoRow: React.FC<{ video: BunnyVideoSummary; selected: boolean; onSelect: () => void; note?: string }> = ({
+  video, selected, onSelect, note
+}) => (
+  <li>
+    <button
+      onClick={onSelect}
+      className={`w-full text-left px-3 py-2 flex justify-between gap-4 transition ${selected ? 'bg-brand-500/20' : 'hover:bg-slate-700/50'}`}
+    >
+      <div className="min-w-0">
+        <p className="text-slate-200 truncate" title={video.title}>{video.title || '(untitled video)'}</p>
+        <p className="text-slate-500 text-[11px] truncate">
+          {video.collectionName && <span className="text-slate-400">{video.collectionName} · </span>}
+          {note || video.guid}
+        </p>
+      </div>
+      <div className="flex-shrink-0 text-right text-[11px] text-slate-400 font-mono">
+        <p>{formatTimestamp(video.lengthSeconds * 1000)}</p>
+        <p>{formatDate(video.dateUploaded)}</p>
+        {video.status !== 4 && <p className="text-amber-400 font-sans">{describeVideoStatus(video.status)}</p>}
+      </div>
+    </button>
+  </li>
+);
+
+const VideoPicker: React.FC<VideoPickerProps> = ({ libraryId, fileName, fileDate, selectedVideoId, onSelect }) => {
+  const [search, setSearch] = useState('');
+  const [query, setQuery] = useState(''); // Debounced search
+  const [page, setPage] = useState(1);
+  const [videos, setVideos] = useState<BunnyVideoSummary[]>([]);
+  const [totalItems, setTotalItems] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<VideoMatch[]>([]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => {
+      setQuery(search);
+      setPage(1);
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  // Browse / search results
+  useEffect(() => {
+    if (!libraryId.trim()) return;
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    listBunnyVideos(libraryId, { page, itemsPerPage: PAGE_SIZE, search: query })
+      .then(result => {
+        if (cancelled) return;
+        setVideos(result.videos);
+        setTotalItems(result.totalItems);
+      })
+      .catch((e: any) => !cancelled && setError(e.message))
+      .finally(() => !cancelled && setLoading(false));
+
+    return () => { cancelled = true; };
+  }, [libraryId, query, page]);
+
+  // Suggestions: newest videos plus a title search on the file name's longest word
+  useEffect(() => {
+    setSuggestions([]);
+    if (!libraryId.trim() || !fileName) return;
+    let cancelled = false;
+
+    const keyword = tokenize(fileName)
+      .filter(word => !/^\d+$/.test(word))
+      .sort((a, b) => b.length - a.length)[0];
+
+    Promise.all([
+      listBunnyVideos(libraryId, { itemsPerPage: SUGGESTION_POOL_SIZE }),
+      keyword ? listBunnyVideos(libraryId, { itemsPerPage: SUGGESTION_POOL_SIZE, search: keyword }) : null,
+    ])
+      .then(([latest, searched]) => {
+        if (cancelled) return;
+        const pool = new Map<string, BunnyVideoSummary>();
+        [...latest.videos, ...(searched?.videos || [])].forEach(video => pool.set(video.guid, video));
+        setSuggestions(suggestVideoMatches(fileName, [...pool.values()], fileDate));
+      })
+      .catch((e: any) => console.warn('[VideoPicker] Could not load suggestions:', e.message));
+
+    return () => { cancelled = true; };
+  }, [libraryId, fileName, fileDate]);
+
+  if (!libraryId.trim()) {
+    return (
+      <div className="p-3 bg-slate-800/50 border border-slate-700 rounded-lg text-xs text-slate-400">
+        Select a library to browse its videos.
+      </div>
+    );
+  }
+
+  const pageCount = Math.max(1, Math.ceil(totalItems / PAGE_SIZE));
+
+  return (
+    <div className="bg-slate-800/50 border border-slate-700 rounded-lg overflow-hidden text-sm">
+      {suggestions.length > 0 && (
+        <div className="border-b border-slate-700">
+          <p className="px-3 pt-2 text-[10px] uppercase font-bold tracking-wider text-brand-500">Suggested for {fileName}</p>
+          <ul className="divide-y divide-slate-700/50">
+            {suggestions.map(match => (
+              <VideoRow
+                key={match.video.guid}
+                video={match.video}
+                selected={match.video.guid === selectedVideoId}
+                onSelect={() => onSelect(match.video)}
+                note={`${Math.round(match.score * 100)}% match · ${match.reasons.join(' · ')}`}
+              />
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="p-3 border-b border-slate-700">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search video titles..."
+          className="w-full bg-slate-800 border border-slate-700 text-white rounded px-3 py-2 text-sm focus:outline-none focus:border-brand-500 transition-colors placeholder-slate-600"
+        />
+      </div>
+
+      {error ? (
+        <div className="p-3 text-red-400 text-xs break-words whitespace-pre-line">{error}</div>
+      ) : (
+        <ul className="max-h-72 overflow-auto custom-scrollbar divide-y divide-slate-700/50">
+          {videos.map(video => (
+            <VideoRow key={video.guid} video={video} selected={video.guid === selectedVideoId} onSelect={() => onSelect(video)} />
+          ))}
+          {!loading && videos.length === 0 && (
+            <li className="px-3 py-4 text-center text-slate-500 text-xs">No videos found.</li>
+          )}
+        </ul>
+      )}
+
+      <div className="px-3 py-2 border-t border-slate-700 flex justify-between items-center text-xs text-slate-400">
+        <span className="flex items-center">
+          {loading && <SpinnerIcon />}
+          {totalItems} video{totalItems === 1 ? '' : 's'}
+        </span>
+        <span className="flex items-center gap-2">
+          <button onClick={() => setPage(p => p - 1)} disabled={loading || page <= 1} className="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 disabled:opacity-40">Prev</button>
+          <span className="font-mono">{page} / {pageCount}</span>
+          <button onClick={() => setPage(p => p + 1)} disabled={loading || page >= pageCount} className="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 disabled:opacity-40">Next</button>
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default VideoPicker;
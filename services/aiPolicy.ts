@@ -0,0 +1,153 @@
+import { AiAttempt, AiErrorCode, AiRetryPolicy, AiTask } from "../types";
+import { AiError, GenerateRequest, fetchAiSettings, streamGeneration } from "./generationClient";
+
+// Worth another try on the same model after a pause
+const RETRYABLE_CODES: AiErrorCode[] = ['rate-limit', 'timeout', 'server', 'network', 'empty'];
+
+// No other model would do better (same input, same session), so the whole chain stops
+const FATAL_CODES: AiErrorCode[] = ['input-too-large', 'auth', 'cancelled'];
+
+// Short titles for showing an AiError or its attempts in the UI
+export const AI_ERROR_LABELS: Record<AiErrorCode, string> = {
+  'rate-limit': 'Rate limited',
+  'timeout': 'Timed out',
+  'server': 'Provider error',
+  'network': 'Network error',
+  'empty': 'Empty response',
+  'invalid-output': 'Unusable output',
+  'truncated': 'Answer cut off',
+  'safety': 'Blocked by safety filter',
+  'bad-request': 'Request rejected',
+  'config': 'Provider not configured',
+  'input-too-large': 'Input too large',
+  'auth': 'Signed out',
+  'cancelled': 'Cancelled',
+};
+
+export interface ExecuteOptions {
+  signal?: AbortSignal;                 // Cancels the job, including any backoff wait
+  onText?: (text: string) => void;      // Streamed text of the current attempt
+}
+
+/**
+ * Exponential backoff with a little jitter, so parallel caption windows do not retry in lockstep.
+ * A server-provided Retry-After wins when it is longer.
+ */
+const backoffDelay = (policy: AiRetryPolicy, retryNumber: number, retryAfterSeconds: number | null): number => {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (retryNumber - 1));
+  const jittered = exponential * (0.8 + Math.random() * 0.4);
+  return Math.max(jittered, (retryAfterSeconds ?? 0) * 1000);
+};
+
+const cancelledError = () => new AiError('cancelled', 'Cancelled.');
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(cancelledError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * One request with its own timeout. Tells a timeout apart from the caller cancelling.
+ */
+const attemptOnce = async (
+  request: GenerateRequest,
+  timeoutMs: number,
+  options: ExecuteOptions
+): Promise<string> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  options.signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await streamGeneration(request, controller.signal, options.onText);
+  } catch (error: any) {
+    if (options.signal?.aborted) throw cancelledError();
+    if (timedOut) throw new AiError('timeout', `No complete answer within ${Math.round(timeoutMs / 1000)} seconds.`);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * Runs an AI task under the shared policy: each model in the task's chain is tried in order,
+ * retryable errors are retried on the same model with backoff, other errors move to the next model,
+ * and fatal errors (or cancellation) stop at once. `parse` turns the text into a result and should
+ * throw when the output is unusable.
+ *
+ * Throws an AiError whose `attempts` lists every try.
+ */
+export const executeAiTask = async <T>(
+  task: AiTask,
+  request: Omit<GenerateRequest, 'model'>,
+  parse: (text: string) => T,
+  label: string,
+  options: ExecuteOptions = {}
+): Promise<T> => {
+  const { tasks, retry } = await fetchAiSettings();
+  const chain = tasks[task] || [];
+  const attempts: AiAttempt[] = [];
+  let lastError = new AiError('config', `No models are configured for ${task}.`);
+
+  for (const [modelIndex, model] of chain.entries()) {
+    for (let attempt = 1; attempt <= retry.maxRetries + 1; attempt++) {
+      if (options.signal?.aborted) {
+        throw new AiError('cancelled', 'Cancelled.', { attempts });
+      }
+
+      const startedAt = Date.now();
+      try {
+        console.log(`[AI] ${label} with ${model} (attempt ${attempt})...`);
+        const text = await attemptOnce({ ...request, model }, retry.attemptTimeoutMs, options);
+        try {
+          return parse(text);
+        } catch (parseError: any) {
+          throw new AiError('invalid-output', parseError.message);
+        }
+      } catch (error: any) {
+        lastError = error instanceof AiError ? error : new AiError('server', error.message || String(error));
+        attempts.push({ model, attempt, code: lastError.code, message: lastError.message, durationMs: Date.now() - startedAt });
+
+        if (FATAL_CODES.includes(lastError.code)) {
+          throw new AiError(lastError.code, lastError.message, { attempts });
+        }
+        if (!RETRYABLE_CODES.includes(lastError.code) || attempt > retry.maxRetries) break;
+
+        const delay = backoffDelay(retry, attempt, lastError.retryAfterSeconds);
+        console.warn(`[AI] ${model} failed on ${label} (${lastError.code}). Retrying in ${Math.round(delay / 1000)}s.`);
+        try {
+          await sleep(delay, options.signal);
+        } catch (cancelled) {
+          throw new AiError('cancelled', 'Cancelled.', { attempts });
+        }
+      }
+    }
+
+    if (modelIndex < chain.length - 1) {
+      console.warn(`[AI] ${model} failed on ${label}. Falling back to ${chain[modelIndex + 1]}.`);
+    }
+  }
+
+  console.error(`[AI] Every model failed on ${label}.`, attempts);
+  throw new AiError(
+    lastError.code,
+    attempts.length > 1
+      ? `Failed ${label} after ${attempts.length} attempts. Last error: ${lastError.message}`
+      : lastError.message,
+    { attempts }
+  );
+};
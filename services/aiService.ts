@@ -0,0 +1,712 @@
+import { ChapterResult, CaptionResult, ParsedTranscript, TranscriptCue, ChunkProgress, BunnyChapter, CaptionLanguage, TranslatedCaptions, LocalizedTitles, CourseAssets, QuizQuestion, BunnyMoment } from "../types";
+import { formatTimestamp, parseTranscript } from "./transcriptParser";
+import { splitIntoWindows, windowToSrt, stitchCaptionWindows, CaptionWindow } from "./captionChunks";
+import { mapWithConcurrency } from "./asyncPool";
+import { serializeSrt } from "./captionFormat";
+import { chaptersToCsv } from "./bunnyService";
+import { executeAiTask } from "./aiPolicy";
+import { AiError } from "./generationClient";
+
+/**
+ * Facts about the transcript, derived locally from the parsed cue model.
+ * These ground the model to the real end of the video instead of letting it guess.
+ */
+interface TranscriptFacts {
+  firstTimestamp: string;  // HH:MM:SS of the first cue
+  lastTimestamp: string;   // HH:MM:SS of the last spoken cue
+  durationSeconds: number;
+  cueCount: number;
+  speakers: string[];
+}
+
+const getTranscriptFacts = (cues: TranscriptCue[], speakers: string[]): TranscriptFacts => {
+  const endMs = cues.reduce((max, cue) => Math.max(max, cue.endMs), 0);
+  return {
+    firstTimestamp: formatTimestamp(cues.length > 0 ? cues[0].startMs : 0),
+    lastTimestamp: formatTimestamp(endMs),
+    durationSeconds: Math.floor(endMs / 1000),
+    cueCount: cues.length,
+    speakers
+  };
+};
+
+const describeSpeakers = (speakers: string[]): string =>
+  speakers.length > 0 ? speakers.join(', ') : 'not labelled in the transcript';
+
+// --- PROMPTS ---
+
+const CHAPTERS_SYSTEM_PROMPT = ({ lastTimestamp, durationSeconds, cueCount, speakers }: TranscriptFacts) => `You are a Zoom Transcript Analyzer and Timestamp Formatter.
+Your task is to split the session into chapters.
+
+CRITICAL CONTEXT:
+The transcript provided contains ${cueCount} cues and ends at exactly ${lastTimestamp} (${durationSeconds} seconds).
+Speakers: ${describeSpeakers(speakers)}.
+You MUST ensure your final chapter covers the content up to ${lastTimestamp}.
+Do not stop early. Do not get lazy. Analyze the text until the very end.
+
+Extract Key Topics
+Analyze the transcript and extract exactly 8-10 main topics discussed.
+Rules:
+1. Ignore greetings, chit-chat, filler, and repeated questions.
+2. Use exact timestamps from the transcript, converted to total seconds (whole numbers, no milliseconds).
+3. The first chapter starts at 0 seconds.
+4. Sort chapters by start time in ascending order. No duplicate start times.
+5. Each topic title must be short (max 10–12 words).
+6. Each summary is one or two sentences describing what is covered.
+7. The last topic must correspond to the final section of the video (around ${lastTimestamp}).
+
+Return JSON matching the response schema. Do not repeat transcript lines.`;
+
+// Structured output for the chapter call (plain JSON Schema; each provider maps it to its own format).
+// End times are derived locally (end = next start).
+const CHAPTERS_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    chapters: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          startSeconds: { type: "integer", description: "Chapter start, in whole seconds from the beginning of the video." },
+          title: { type: "string", description: "Short topic title, max 12 words." },
+          summary: { type: "string", description: "One or two sentences describing the chapter." },
+        },
+        required: ["startSeconds", "title", "summary"],
+      },
+    },
+  },
+  required: ["chapters"],
+};
+
+// --- JSON ANSWER GUARDS ---
+// Structured output is only a request to the model, so its answers are narrowed field by field.
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const listOf = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+const textOf = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+// NaN for anything but a number, so a missing field never turns into 0
+const numberOf = (value: unknown): number => (typeof value === 'number' ? value : NaN);
+
+interface ChapterOutline {
+  title: string;
+  startSeconds: number;
+  summary: string;
+}
+
+// Items without a title or a numeric start are dropped; an outline left empty fails the attempt
+// so the "chapters" policy can move on to the next model.
+const parseChapterOutline = (text: string): ChapterOutline[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text || "");
+  } catch (e) {
+    throw new Error("AI returned invalid chapter data. Please try again.");
+  }
+  if (!isRecord(raw)) {
+    throw new Error("AI returned invalid chapter data. Please try again.");
+  }
+
+  const outline: ChapterOutline[] = listOf(raw.chapters)
+    .filter(isRecord)
+    .map(item => ({
+      title: textOf(item.title),
+      startSeconds: numberOf(item.startSeconds),
+      summary: textOf(item.summary),
+    }))
+    .filter(item => item.title && Number.isFinite(item.startSeconds));
+  if (outline.length === 0) {
+    throw new Error("AI returned no chapters. Please try again.");
+  }
+  return outline;
+};
+
+/**
+ * Turns the model's chapter outline into contiguous Bunny chapters:
+ * sorted, de-duplicated, clamped to the transcript, each ending where the next begins.
+ */
+const buildChapters = (outline: ChapterOutline[], durationSeconds: number): BunnyChapter[] => {
+  const sorted = outline
+    .filter(item => item.title && Number.isFinite(item.startSeconds))
+    .map(item => ({
+      title: item.title,
+      start: Math.min(Math.max(0, Math.round(item.startSeconds)), durationSeconds),
+      summary: item.summary
+    }))
+    .sort((a, b) => a.start - b.start)
+    .filter((item, i, all) => i === 0 || item.start !== all[i - 1].start);
+
+  if (sorted.length > 0) {
+    sorted[0].start = 0;
+  }
+
+  return sorted
+    .map((item, i) => ({
+      ...item,
+      end: i < sorted.length - 1 ? sorted[i + 1].start : durationSeconds
+    }))
+    .filter(chapter => chapter.end > chapter.start);
+};
+
+const CAPTIONS_SYSTEM_PROMPT = ({ firstTimestamp, lastTimestamp, cueCount }: TranscriptFacts) => `You are a professional caption file formatter. Your task is to clean and reformat a long caption file (.srt or .vtt) for a 1–4 hour video session so it looks professional, readable, and ready for upload to Bunny.net.
+
+CRITICAL CONTEXT:
+The input contains ${cueCount} cues from ${firstTimestamp} to ${lastTimestamp}. It may be one part of a longer session.
+Keep the original timestamps (do NOT restart at 00:00:00). Your output MUST continue until ${lastTimestamp}.
+
+Formatting Requirements
+1. Line length:
+○ Limit each caption block to 1–2 lines maximum.
+○ Each line should ideally stay under 80 characters.
+2. Duration:
+○ If a caption lasts longer than 4 seconds or exceeds 2 lines, split it into smaller, readable parts.
+3. Timestamps:
+○ Maintain accurate timestamps.
+○ No overlapping, merging unrelated speech, or dropping time markers.
+4. Content cleanup:
+○ Remove filler words (like “uh”, “umm”) unless contextually needed.
+○ Remove all speaker names or identifiers (e.g., “John:” or “Speaker 1:”).
+○ Preserve all spoken content and context.
+5. Grammar & punctuation:
+○ Use proper sentence casing and standard punctuation.
+○ Ensure readability (split long sentences at natural pauses).
+6. Format:
+Output in valid .srt format with sequential numbering and timestamps.
+Encode the file in UTF-8.
+
+Output ONLY the raw SRT content. Do not wrap it in markdown code blocks. Do not add conversational text.`;
+
+export interface GenerateChaptersOptions {
+  onStream?: (receivedChars: number) => void;  // Characters of the model's answer received so far
+  signal?: AbortSignal;                        // Aborting rejects with an AiError of code "cancelled"
+  titleLanguages?: CaptionLanguage[];          // Extra languages to translate the titles into
+}
+
+/**
+ * Generates chapters in the transcript's language, then translates their titles into `titleLanguages`.
+ * A failed title translation leaves `localizedTitles` without that language rather than failing the chapters.
+ */
+export const generateChapters = async (
+  transcriptText: string,
+  transcript: ParsedTranscript,
+  { onStream, signal, titleLanguages = [] }: GenerateChaptersOptions = {}
+): Promise<ChapterResult> => {
+  // 1. Ground the model on the parsed transcript (true duration, speakers, cue count)
+  const facts = getTranscriptFacts(transcript.cues, transcript.speakers);
+  
+  // 2. Models come from the "chapters" chain in config/ai.json (a long-context model first)
+  try {
+    const outline = await executeAiTask('chapters', {
+      contents: transcriptText,
+      systemInstruction: CHAPTERS_SYSTEM_PROMPT(facts),
+      config: {
+        temperature: 0.2, // Low temperature for adherence to instructions
+        responseSchema: CHAPTERS_RESPONSE_SCHEMA,
+      },
+    }, parseChapterOutline, 'generating chapters', { onText: text => onStream?.(text.length), signal });
+
+    // Build both outputs locally from the typed data
+    const chapters = buildChapters(outline, facts.durationSeconds);
+
+    const localizedTitles: LocalizedTitles = {};
+    for (const language of titleLanguages) {
+      try {
+        Object.assign(localizedTitles, await localizeChapterTitles(chapters.map(ch => ch.title), [language], signal));
+      } catch (error) {
+        if (error instanceof AiError && error.code === 'cancelled') throw error;
+        console.warn(`Chapter titles could not be translated into ${language.label}.`, error);
+      }
+    }
+
+    return {
+      humanReadable: chapters.map(ch => `${formatTimestamp(ch.start * 1000)} – ${ch.title}`).join('\n'),
+      csvContent: chaptersToCsv(chapters),
+      chapters,
+      localizedTitles
+    };
+
+  } catch (error) {
+    console.error("Chapter Generation Error:", error);
+    throw error;
+  }
+};
+
+// How far before the end of its window a cleaned window may stop; fillers removed at the end stay well inside it
+const WINDOW_END_TOLERANCE_MS = 30 * 1000;
+
+/**
+ * Parses a cleaned window. A window whose cues stop well before the input's end was cut off
+ * (every complete cue still parses), so it is rejected and the window goes to the next attempt.
+ */
+const parseCleanedWindow = (text: string, window: CaptionWindow): TranscriptCue[] => {
+  // Basic cleanup if the model wraps in code blocks
+  const srtContent = text
+    .replace(/^```srt\s*/i, "").replace(/^```\s*/i, "").replace(/```$/i, "")
+    .trim();
+
+  if (!srtContent) {
+    throw new Error("AI returned empty content.");
+  }
+
+  // Speaker names were already removed by the model; anything before a colon is content now
+  const cues = parseTranscript(srtContent, 'cleaned.srt', { detectSpeakers: false }).cues;
+  const lastEndMs = cues.reduce((max, cue) => Math.max(max, cue.endMs), 0);
+  if (lastEndMs < window.endMs - WINDOW_END_TOLERANCE_MS) {
+    throw new Error(`Cleaned captions stop at ${formatTimestamp(lastEndMs)}, but the part runs until ${formatTimestamp(window.endMs)}; the answer was cut off.`);
+  }
+  return cues;
+};
+
+// Windows cleaned in parallel. Kept low to stay under per-minute rate limits.
+const CAPTION_CONCURRENCY = 3;
+
+/**
+ * Cleans a single caption window and parses the model output back into cues.
+ */
+const cleanCaptionWindow = async (
+  window: CaptionWindow,
+  totalWindows: number,
+  signal?: AbortSignal
+): Promise<TranscriptCue[]> => {
+  const facts = getTranscriptFacts(window.cues, []);
+  const partLabel = `part ${window.index + 1} of ${totalWindows} (${facts.firstTimestamp}–${facts.lastTimestamp})`;
+  const input = windowToSrt(window);
+
+  // Models come from the "captions" chain in config/ai.json: quality first, then a more stable fallback.
+  // Transient errors are retried; a model that returns unusable SRT hands the window to the next one.
+  return executeAiTask('captions', {
+    contents: input,
+    systemInstruction: CAPTIONS_SYSTEM_PROMPT(facts),
+    config: {
+      temperature: 0.1,
+      maxOutputTokens: 8192, // Maximize token limit
+    },
+  }, text => parseCleanedWindow(text, window), `cleaning captions for ${partLabel}`, { signal });
+};
+
+/**
+ * Cleans captions window by window so multi-hour sessions are never truncated by the output token cap,
+ * then stitches the windows back into one sequentially numbered SRT.
+ * Aborting `signal` stops every in-flight window and rejects with an AiError of code "cancelled".
+ */
+export const cleanCaptions = async (
+  transcript: ParsedTranscript,
+  onProgress?: (progress: ChunkProgress) => void,
+  signal?: AbortSignal
+): Promise<CaptionResult> => {
+  const windows = splitIntoWindows(transcript.cues);
+  let completed = 0;
+
+  onProgress?.({ completed, total: windows.length });
+
+  const cleanedWindows = await mapWithConcurrency(windows, CAPTION_CONCURRENCY, async (window) => {
+    const cues = await cleanCaptionWindow(window, windows.length, signal);
+    completed++;
+    onProgress?.({ completed, total: windows.length });
+    return cues;
+  });
+
+  return {
+    srtContent: stitchCaptionWindows(cleanedWindows)
+  };
+};
+
+// Translation windows are shorter than cleanup windows: translated JSON (especially in
+// non-Latin scripts) uses far more output tokens than the SRT it came from.
+const TRANSLATION_WINDOW_MS = 4 * 60 * 1000;
+
+// What is being translated; changes the style rule in the prompt
+type TranslationKind = 'caption' | 'chapter-title';
+
+const TRANSLATION_STYLE: Record<TranslationKind, string> = {
+  'caption': 'Each line is a subtitle shown at a fixed time. Translate the meaning naturally, concise enough to read at the original pace.',
+  'chapter-title': 'Each line is a chapter title of a recorded class. Keep it short (max 12 words) and in title style.',
+};
+
+const TRANSLATION_SYSTEM_PROMPT = (language: CaptionLanguage, lineCount: number, kind: TranslationKind) => `You are a professional translator for video subtitles and course content.
+Translate each line into ${language.label} (language code "${language.srclang}").
+
+Rules:
+1. Return exactly ${lineCount} lines: one for each input line, with the same "id".
+2. Do not merge, split, drop or reorder lines.
+3. ${TRANSLATION_STYLE[kind]}
+4. Keep names, product names, code and technical identifiers as they are.
+5. Keep a line break ("\\n") inside a line only where the input has one.
+
+Return JSON matching the response schema.`;
+
+const TRANSLATION_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    lines: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          id: { type: "integer" },
+          text: { type: "string" },
+        },
+        required: ["id", "text"],
+      },
+    },
+  },
+  required: ["lines"],
+};
+
+/**
+ * Checks the model kept one line per input cue and returns the texts in input order.
+ */
+const parseTranslatedLines = (text: string, lineCount: number): string[] => {
+  let lines: { id: number; text: string }[];
+  try {
+    lines = JSON.parse(text || "").lines;
+  } catch (e) {
+    throw new Error("AI returned invalid translation data.");
+  }
+  if (!Array.isArray(lines)) {
+    throw new Error("AI returned no translated lines.");
+  }
+
+  const byId = new Map(lines.map(line => [line.id, String(line.text ?? '').trim()]));
+  const missing = Array.from({ length: lineCount }, (_, i) => i + 1).filter(id => !byId.get(id));
+  if (lines.length !== lineCount || missing.length > 0) {
+    throw new Error(`AI returned ${lines.length} of ${lineCount} lines${missing.length > 0 ? ` (missing ${missing.slice(0, 5).join(', ')})` : ''}.`);
+  }
+  return Array.from({ length: lineCount }, (_, i) => byId.get(i + 1)!);
+};
+
+/**
+ * Translates a list of lines one-for-one, returning the translations in input order.
+ */
+const translateLines = (
+  lines: string[],
+  language: CaptionLanguage,
+  kind: TranslationKind,
+  label: string,
+  signal?: AbortSignal
+): Promise<string[]> =>
+  executeAiTask('translation', {
+    contents: JSON.stringify({ lines: lines.map((text, i) => ({ id: i + 1, text })) }),
+    systemInstruction: TRANSLATION_SYSTEM_PROMPT(language, lines.length, kind),
+    config: {
+      temperature: 0.2,
+      maxOutputTokens: 16384,
+      responseSchema: TRANSLATION_RESPONSE_SCHEMA,
+    },
+  }, text => parseTranslatedLines(text, lines.length), label, { signal });
+
+/**
+ * Translates one window of cues, returning the translated text of each cue in order.
+ */
+const translateCaptionWindow = async (
+  window: CaptionWindow,
+  totalWindows: number,
+  language: CaptionLanguage,
+  signal?: AbortSignal
+): Promise<string[]> => {
+  const facts = getTranscriptFacts(window.cues, []);
+  const partLabel = `part ${window.index + 1} of ${totalWindows} (${facts.firstTimestamp}–${facts.lastTimestamp})`;
+  return translateLines(window.cues.map(cue => cue.text), language, 'caption', `translating ${partLabel} into ${language.label}`, signal);
+};
+
+/**
+ * Translates cleaned captions into another language cue by cue, in windows so long sessions
+ * fit the output limit. Cue count and timings are taken from the source, so the track lines up
+ * exactly with the original. Aborting `signal` rejects with an AiError of code "cancelled".
+ */
+export const translateCaptions = async (
+  srtContent: string,
+  language: CaptionLanguage,
+  onProgress?: (progress: ChunkProgress) => void,
+  signal?: AbortSignal
+): Promise<TranslatedCaptions> => {
+  const cues = parseTranscript(srtContent, 'cleaned.srt', { detectSpeakers: false }).cues;
+  const windows = splitIntoWindows(cues, TRANSLATION_WINDOW_MS);
+  let completed = 0;
+
+  onProgress?.({ completed, total: windows.length });
+
+  const translatedWindows = await mapWithConcurrency(windows, CAPTION_CONCURRENCY, async (window) => {
+    const texts = await translateCaptionWindow(window, windows.length, language, signal);
+    completed++;
+    onProgress?.({ completed, total: windows.length });
+    return window.cues.map((cue, i) => ({ ...cue, text: texts[i] }));
+  });
+
+  return {
+    srclang: language.srclang,
+    label: language.label,
+    srtContent: serializeSrt(translatedWindows.flat())
+  };
+};
+
+/**
+ * Translates chapter titles into each of `languages`, one language at a time.
+ * Returns srclang -> source title -> translated title; repeated titles are translated once.
+ */
+export const localizeChapterTitles = async (
+  titles: string[],
+  languages: CaptionLanguage[],
+  signal?: AbortSignal
+): Promise<LocalizedTitles> => {
+  const sourceTitles = [...new Set(titles.map(title => title.trim()))];
+  const localized: LocalizedTitles = {};
+  for (const language of languages) {
+    const translated = await translateLines(sourceTitles, language, 'chapter-title', `translating chapter titles into ${language.label}`, signal);
+    localized[language.srclang] = Object.fromEntries(sourceTitles.map((title, i) => [title, translated[i]]));
+  }
+  return localized;
+};
+
+// --- COURSE ASSETS ---
+
+const ASSETS_SYSTEM_PROMPT = (
+  { lastTimestamp, durationSeconds, cueCount, speakers }: TranscriptFacts,
+  chapters: BunnyChapter[]
+) => `You are an instructional designer preparing LMS material for a recorded class.
+
+CRITICAL CONTEXT:
+The transcript contains ${cueCount} cues and ends at ${lastTimestamp} (${durationSeconds} seconds).
+Speakers: ${describeSpeakers(speakers)}.
+
+Produce:
+1. "title": a session title for the course page, max 10 words, naming the main subject. No dates or session numbers.
+   "description": a session description for the course page, one or two short paragraphs. Say what learners will be able to do after watching. No greetings, no "In this video".
+2. "chapters": ${chapters.length > 0
+  ? `exactly ${chapters.length} entries, one for each of these chapters, in this order, keeping "startSeconds" and "title" unchanged:
+${chapters.map(ch => `   - ${ch.start}s: ${ch.title}`).join('\n')}
+   Write a 2–3 sentence "summary" of what each chapter teaches.`
+  : `6–10 sections covering the whole session, the first starting at 0 seconds, with a short "title" (max 12 words) and a 2–3 sentence "summary" of what each teaches.`}
+3. "actionItems": 3–8 concrete tasks the session asks learners to do (exercises, readings, setup steps). Use an empty list if there are none. Do not invent tasks.
+4. "quiz": 5–10 multiple-choice questions that check understanding of the main ideas, not trivia.
+   - Exactly 4 "options" each, one correct; "answerIndex" is the 0-based index of the correct option.
+   - "explanation": one sentence on why the answer is correct.
+   - "answerSeconds": the whole second in the transcript where the answer is explained (between 0 and ${durationSeconds}).
+
+Write in the language of the transcript. Return JSON matching the response schema.`;
+
+const ASSETS_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    title: { type: "string" },
+    description: { type: "string" },
+    chapters: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          startSeconds: { type: "integer" },
+          title: { type: "string" },
+          summary: { type: "string" },
+        },
+        required: ["startSeconds", "title", "summary"],
+      },
+    },
+    actionItems: { type: "array", items: { type: "string" } },
+    quiz: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          question: { type: "string" },
+          options: { type: "array", items: { type: "string" } },
+          answerIndex: { type: "integer", description: "0-based index of the correct option." },
+          explanation: { type: "string" },
+          answerSeconds: { type: "integer", description: "Where the video explains the answer, in whole seconds." },
+        },
+        required: ["question", "options", "answerIndex", "explanation", "answerSeconds"],
+      },
+    },
+  },
+  required: ["title", "description", "chapters", "actionItems", "quiz"],
+};
+
+/**
+ * Checks the model's answer and builds the assets. With `chapters`, the summaries must line up
+ * with them one-for-one; otherwise the model's own sections become the chapter list.
+ * Questions with a missing or out-of-range answer are dropped.
+ */
+const parseCourseAssets = (text: string, chapters: BunnyChapter[], durationSeconds: number): CourseAssets => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text || "");
+  } catch (e) {
+    throw new Error("AI returned invalid course assets. Please try again.");
+  }
+  if (!isRecord(raw)) {
+    throw new Error("AI returned invalid course assets. Please try again.");
+  }
+
+  const title = textOf(raw.title);
+  const description = textOf(raw.description);
+  const outline: ChapterOutline[] = listOf(raw.chapters).filter(isRecord).map(item => ({
+    title: textOf(item.title),
+    startSeconds: numberOf(item.startSeconds),
+    summary: textOf(item.summary),
+  }));
+  if (!title || !description || outline.length === 0) {
+    throw new Error("AI returned no title, description or chapter summaries. Please try again.");
+  }
+
+  let chapterSummaries: BunnyChapter[];
+  if (chapters.length > 0) {
+    if (outline.length !== chapters.length) {
+      throw new Error(`AI returned ${outline.length} chapter summaries for ${chapters.length} chapters.`);
+    }
+    chapterSummaries = chapters.map((ch, i) => ({ ...ch, summary: outline[i].summary || ch.summary }));
+  } else {
+    chapterSummaries = buildChapters(outline, durationSeconds);
+  }
+
+  const quiz: QuizQuestion[] = listOf(raw.quiz)
+    .filter(isRecord)
+    .map(q => ({
+      question: textOf(q.question),
+      options: listOf(q.options).map(option => String(option).trim()),
+      answerIndex: numberOf(q.answerIndex),
+      explanation: textOf(q.explanation),
+      answerSeconds: Math.min(Math.max(0, Math.round(numberOf(q.answerSeconds) || 0)), durationSeconds),
+    }))
+    .filter(q =>
+      q.question && q.options.length >= 2 && Number.isInteger(q.answerIndex) && q.answerIndex >= 0 && q.answerIndex < q.options.length);
+
+  if (quiz.length === 0) {
+    throw new Error("AI returned no usable quiz questions. Please try again.");
+  }
+
+  return {
+    title,
+    description,
+    chapterSummaries,
+    actionItems: listOf(raw.actionItems).map(textOf).filter(Boolean),
+    quiz,
+  };
+};
+
+export interface GenerateCourseAssetsOptions {
+  onStream?: (receivedChars: number) => void;  // Characters of the model's answer received so far
+  signal?: AbortSignal;                        // Aborting rejects with an AiError of code "cancelled"
+  chapters?: BunnyChapter[];                   // Summarize these chapters instead of finding new sections
+}
+
+/**
+ * Generates a session title and description, chapter summaries, action items and a quiz from the transcript.
+ */
+export const generateCourseAssets = async (
+  transcriptText: string,
+  transcript: ParsedTranscript,
+  { onStream, signal, chapters = [] }: GenerateCourseAssetsOptions = {}
+): Promise<CourseAssets> => {
+  const facts = getTranscriptFacts(transcript.cues, transcript.speakers);
+
+  try {
+    return await executeAiTask('assets', {
+      contents: transcriptText,
+      systemInstruction: ASSETS_SYSTEM_PROMPT(facts, chapters),
+      config: {
+        temperature: 0.3,
+        responseSchema: ASSETS_RESPONSE_SCHEMA,
+      },
+    }, text => parseCourseAssets(text, chapters, facts.durationSeconds), 'generating course assets', { onText: text => onStream?.(text.length), signal });
+  } catch (error) {
+    console.error("Course Assets Error:", error);
+    throw error;
+  }
+};
+
+// --- MOMENTS ---
+
+const MOMENTS_SYSTEM_PROMPT = ({ lastTimestamp, durationSeconds, cueCount, speakers }: TranscriptFacts) => `You are a video editor marking key moments on the timeline of a recorded class.
+
+CRITICAL CONTEXT:
+The transcript contains ${cueCount} cues and ends at ${lastTimestamp} (${durationSeconds} seconds).
+Speakers: ${describeSpeakers(speakers)}.
+
+Pick 5–15 moments a learner would want to jump to:
+- answers to questions from participants (the answer, not the question),
+- demos and live walkthroughs (where they start),
+- announcements (deadlines, assignments, schedule changes),
+- the clearest explanation of each key idea.
+
+Rules:
+1. Each moment is a single point in time: the whole second in the transcript where it starts (between 0 and ${durationSeconds}).
+2. Labels are short (max 8 words) and say what happens, e.g. "Demo: deploying the app" or "Q&A: handling null values".
+3. Skip greetings, small talk, breaks and technical issues.
+4. No two moments at the same second. Sort by time.
+
+Write labels in the language of the transcript. Return JSON matching the response schema.`;
+
+const MOMENTS_RESPONSE_SCHEMA = {
+  type: "object",
+  properties: {
+    moments: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          timestampSeconds: { type: "integer", description: "Where the moment starts, in whole seconds from the beginning of the video." },
+          label: { type: "string", description: "Short label, max 8 words." },
+        },
+        required: ["timestampSeconds", "label"],
+      },
+    },
+  },
+  required: ["moments"],
+};
+
+/**
+ * Turns the model's answer into sorted moments within the transcript, one per second.
+ */
+const parseMoments = (text: string, durationSeconds: number): BunnyMoment[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text || "");
+  } catch (e) {
+    throw new Error("AI returned invalid moment data. Please try again.");
+  }
+
+  const moments = listOf(isRecord(raw) ? raw.moments : null)
+    .filter(isRecord)
+    .map(item => ({ label: textOf(item.label), seconds: numberOf(item.timestampSeconds) }))
+    .filter(item => item.label && Number.isFinite(item.seconds))
+    .map(item => ({
+      label: item.label,
+      timestamp: Math.min(Math.max(0, Math.round(item.seconds)), durationSeconds),
+    }))
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .filter((m, i, all) => i === 0 || m.timestamp !== all[i - 1].timestamp);
+
+  if (moments.length === 0) {
+    throw new Error("AI returned no moments. Please try again.");
+  }
+  return moments;
+};
+
+/**
+ * Picks notable moments (Q&A answers, demos, announcements) from the transcript, each at a single timestamp.
+ * `onStream` and `signal` work as for generateChapters.
+ */
+export const generateMoments = async (
+  transcriptText: string,
+  transcript: ParsedTranscript,
+  { onStream, signal }: Pick<GenerateChaptersOptions, 'onStream' | 'signal'> = {}
+): Promise<BunnyMoment[]> => {
+  const facts = getTranscriptFacts(transcript.cues, transcript.speakers);
+
+  try {
+    return await executeAiTask('moments', {
+      contents: transcriptText,
+      systemInstruction: MOMENTS_SYSTEM_PROMPT(facts),
+      config: {
+        temperature: 0.2,
+        responseSchema: MOMENTS_RESPONSE_SCHEMA,
+      },
+    }, text => parseMoments(text, facts.durationSeconds), 'generating moments', { onText: text => onStream?.(text.length), signal });
+  } catch (error) {
+    console.error("Moment Generation Error:", error);
+    throw error;
+  }
+};
@@ -0,0 +1,30 @@
+/**
+ * Runs `worker` over every item with at most `limit` calls in flight at once.
+ * Results keep the order of `items`. The first rejection rejects the whole call
+ * (in-flight workers are allowed to settle, but no new ones start).
+ */
+export const mapWithConcurrency = async <T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<R>
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+  let failed = false;
+
+  const runLane = async () => {
+    while (!failed && nextIndex < items.length) {
+      const index = nextIndex++;
+      try {
+        results[index] = await worker(items[index], index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, runLane);
+  await Promise.all(lanes);
+  return results;
+};
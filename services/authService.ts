@@ -0,0 +1,79 @@
+import { AuthSession } from "../types";
+
+const STORAGE_KEY = 'bunny-processor-session';
+
+type ExpiryListener = () => void;
+const expiryListeners = new Set<ExpiryListener>();
+
+/**
+ * The stored session, or null when signed out or expired.
+ */
+export const getSession = (): AuthSession | null => {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (!raw) return null;
+    const session = JSON.parse(raw) as AuthSession;
+    if (!session.token || session.expiresAt * 1000 <= Date.now()) {
+      localStorage.removeItem(STORAGE_KEY);
+      return null;
+    }
+    return session;
+  } catch (e) {
+    return null;
+  }
+};
+
+/**
+ * Authorization header for API calls (empty when signed out).
+ */
+export const authHeaders = (): Record<string, string> => {
+  const session = getSession();
+  return session ? { 'Authorization': `Bearer ${session.token}` } : {};
+};
+
+/**
+ * Signs in against /api/login and stores the returned token.
+ */
+export const login = async (username: string, password: string): Promise<AuthSession> => {
+  const response = await fetch('/api/login', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ username, password })
+  });
+
+  let data: any = null;
+  try {
+    data = await response.json();
+  } catch (e) {
+    throw new Error(`Sign-in failed (Status ${response.status}).`);
+  }
+
+  if (!response.ok || data.error) {
+    throw new Error(data.error || `Sign-in failed (Status ${response.status}).`);
+  }
+
+  const session: AuthSession = { token: data.token, expiresAt: data.expiresAt, user: data.user };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  console.log(`[AuthService] Signed in as ${session.user.username} (${session.user.role})`);
+  return session;
+};
+
+export const logout = (): void => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+/**
+ * Called by the API client on a 401: drops the session and tells the UI to show the sign-in form.
+ */
+export const notifySessionExpired = (): void => {
+  logout();
+  expiryListeners.forEach(listener => listener());
+};
+
+/**
+ * Subscribes to session expiry. Returns the unsubscribe function.
+ */
+export const onSessionExpired = (listener: ExpiryListener): (() => void) => {
+  expiryListeners.add(listener);
+  return () => { expiryListeners.delete(listener); };
+};
@@ -0,0 +1,141 @@
+import { BatchDeployStep, BatchItem, BatchOptions, ChapterPolicy, ChapterTitleConfig } from "../types";
+import { parseTranscript } from "./transcriptParser";
+import { generateChapters, cleanCaptions } from "./aiService";
+import { fetchBunnyVideo, updateBunnyChapters, uploadBunnyCaptions } from "./bunnyService";
+import { validateChapters } from "./chapterRules";
+import { repairSrt } from "./srtValidator";
+import { convertCaptions } from "./captionFormat";
+import { chaptersInLanguage } from "./chapterTitles";
+
+// Transcripts processed at the same time. Each caption job already runs its own chunks in parallel.
+export const BATCH_CONCURRENCY = 2;
+
+// Matches a Bunny.net video GUID anywhere in a file name
+export const DEFAULT_FILENAME_PATTERN = '(?<videoId>[0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})';
+
+let nextId = 0;
+
+/**
+ * Reads and parses a dropped file into a queue row. Parse errors are kept on the row
+ * (status "error") so one bad file never blocks the rest of the queue.
+ */
+export const createBatchItem = async (file: File, defaultLibraryId: string): Promise<BatchItem> => {
+  const base: BatchItem = {
+    id: `batch-${Date.now()}-${nextId++}`,
+    fileName: file.name,
+    content: '',
+    transcript: null,
+    libraryId: defaultLibraryId,
+    videoId: '',
+    status: 'pending',
+    message: null,
+    chapterResult: null,
+    captionResult: null,
+    deployedSteps: [],
+  };
+
+  try {
+    const text = await file.text();
+    return { ...base, content: text, transcript: parseTranscript(text, file.name) };
+  } catch (err: any) {
+    return { ...base, status: 'error', message: err.message || 'Failed to read file contents.' };
+  }
+};
+
+/**
+ * Pulls libraryId/videoId out of a file name using a regex with named groups
+ * `(?<videoId>...)` and optionally `(?<libraryId>...)`. Returns only the groups that matched.
+ * Throws on an invalid pattern so the UI can show it.
+ */
+export const matchFileName = (fileName: string, pattern: string): { libraryId?: string; videoId?: string } => {
+  const regex = new RegExp(pattern || DEFAULT_FILENAME_PATTERN);
+  const groups = fileName.match(regex)?.groups || {};
+  return {
+    ...(groups.libraryId ? { libraryId: groups.libraryId } : {}),
+    ...(groups.videoId ? { videoId: groups.videoId } : {}),
+  };
+};
+
+/**
+ * Runs the selected AI steps for one row. Existing results are reused, so retrying a row
+ * whose captions failed does not regenerate its chapters. `titleConfig` adds the target
+ * library's other chapter title languages.
+ */
+export const processBatchItem = async (
+  item: BatchItem,
+  options: BatchOptions,
+  onMessage: (message: string) => void,
+  titleConfig?: ChapterTitleConfig
+): Promise<Pick<BatchItem, 'chapterResult' | 'captionResult'>> => {
+  if (!item.transcript) {
+    throw new Error(item.message || 'Transcript could not be parsed.');
+  }
+
+  const transcript = item.transcript;
+  let chapterResult = item.chapterResult;
+  let captionResult = item.captionResult;
+
+  if (options.chapters && !chapterResult) {
+    onMessage('Generating chapters...');
+    chapterResult = await generateChapters(item.content, transcript, { titleLanguages: titleConfig?.languages.slice(1) });
+  }
+
+  if (options.captions && !captionResult) {
+    onMessage('Cleaning captions...');
+    const result = await cleanCaptions(transcript, ({ completed, total }) => {
+      onMessage(`Cleaning captions (${completed}/${total})...`);
+    });
+    // No human reviews the SRT in batch mode, so apply the deterministic repair pass
+    captionResult = { srtContent: repairSrt(result.srtContent) };
+  }
+
+  return { chapterResult, captionResult };
+};
+
+/**
+ * Pushes a processed row's results to Bunny.net. Steps in `item.deployedSteps` are skipped, so
+ * retrying a row whose caption upload failed does not write (and audit) its chapters again;
+ * `onStepDeployed` reports each write as soon as it succeeds. `chapterPolicy` and `titleConfig`
+ * come from the target library's registry entry, when the library is in the registry.
+ */
+export const deployBatchItem = async (
+  item: BatchItem,
+  options: BatchOptions,
+  onMessage: (message: string) => void,
+  onStepDeployed: (step: BatchDeployStep) => void,
+  chapterPolicy?: ChapterPolicy,
+  titleConfig?: ChapterTitleConfig
+): Promise<void> => {
+  if (!item.libraryId.trim() || !item.videoId.trim()) {
+    throw new Error('Library ID and Video GUID are required.');
+  }
+
+  if (options.chapters && item.chapterResult && !item.deployedSteps.includes('chapters')) {
+    // Same rule as single-file mode: the encoded video length wins over the transcript's last cue
+    onMessage('Checking video length...');
+    const video = await fetchBunnyVideo(item.libraryId, item.videoId);
+    const durationSeconds = video.lengthSeconds > 0
+      ? Math.floor(video.lengthSeconds)
+      : item.transcript ? Math.floor(item.transcript.durationMs / 1000) : null;
+    const validation = validateChapters(item.chapterResult.chapters, { durationSeconds, policy: chapterPolicy });
+    if (validation.errorCount > 0) {
+      throw new Error(`Chapters have ${validation.errorCount} error(s): ${validation.issues[0].message} Fix them in single-file mode.`);
+    }
+    onMessage('Uploading chapters...');
+    const chapters = titleConfig
+      ? chaptersInLanguage(item.chapterResult.chapters, item.chapterResult.localizedTitles, titleConfig.bunnyLanguage)
+      : item.chapterResult.chapters;
+    await updateBunnyChapters('', item.libraryId, item.videoId, chapters);
+    onStepDeployed('chapters');
+  }
+
+  if (options.captions && item.captionResult && !item.deployedSteps.includes('captions')) {
+    onMessage('Uploading captions...');
+    await uploadBunnyCaptions(item.libraryId, item.videoId, {
+      srclang: options.captionLanguage,
+      label: options.captionLabel,
+      content: convertCaptions(item.captionResult.srtContent, options.captionFormat)
+    });
+    onStepDeployed('captions');
+  }
+};
@@ -1,100 +1,88 @@
-import { BunnyChapter } from "../types";
-
-// --- CONFIGURATION ---
-export const BUNNY_LIBRARIES = [
-  { name: "astro", id: "" },
-  { name: "AstroLMS", id: "" },
-  { name: "C2C LMS", id: "" },
-  { name: "Dr Finance (Presto Public)", id: "" },
-  { name: "InfiniteLMS", id: "239218" }, 
-  { name: "Internal Use", id: "" },
-  { name: "MadAboutSportsLMS", id: "" },
-  { name: "ProfitUniLMS", id: "" },
-  { name: "SPRINGPAD (Presto Public)", id: "" },
-  { name: "TechGurukul LMS (Presto Public)", id: "" },
-  { name: "WDNTV", id: "" },
-  { name: "Yogalution LMS", id: "" },
-];
+import { BunnyChapter, BunnyCaptionTrack, BunnyVideoInfo, BunnyVideoPage, BunnyLibrary, LibraryHealth, AuditEntry, AuditLogResult, VideoMetadataUpdate } from "../types";
+import { authHeaders, notifySessionExpired } from "./authService";
 
 /**
- * Parses the CSV string (start,end,title) into Bunny.net JSON structure.
+ * Parses one "start,end,title" line. Returns null if the line is not a valid chapter.
  */
-export const parseCsvToBunnyChapters = (csvContent: string): BunnyChapter[] => {
-  const lines = csvContent.split('\n').filter(line => line.trim() !== '');
-  const chapters: BunnyChapter[] = [];
+const parseCsvLine = (line: string): BunnyChapter | null => {
+  const parts = line.split(',');
+  if (parts.length < 3) return null;
 
-  for (const line of lines) {
-    const parts = line.split(',');
-    
-    if (parts.length >= 3) {
-      const start = parseInt(parts[0].trim(), 10);
-      const end = parseInt(parts[1].trim(), 10);
-      const title = parts.slice(2).join(',').trim();
-
-      if (!isNaN(start) && !isNaN(end) && title) {
-        chapters.push({
-          start,
-          end,
-          title
-        });
-      }
-    }
-  }
+  const start = parseInt(parts[0].trim(), 10);
+  const end = parseInt(parts[1].trim(), 10);
+  const title = parts.slice(2).join(',').trim();
 
-  return chapters;
+  if (isNaN(start) || isNaN(end) || !title) return null;
+  return { start, end, title };
 };
 
 /**
- * Sends the chapter data to our internal secure API route.
+ * Parses the CSV string (start,end,title) into Bunny.net JSON structure.
  */
-export const updateBunnyChapters = async (
-  apiKey: string, 
-  libraryId: string,
-  videoId: string,
-  csvContent: string
-): Promise<void> => {
-  console.log(`[BunnyService] Initiating update for Lib: ${libraryId}, Video: ${videoId}`);
-  
-  const chapters = parseCsvToBunnyChapters(csvContent);
+export const parseCsvToBunnyChapters = (csvContent: string): BunnyChapter[] =>
+  csvContent
+    .split('\n')
+    .filter(line => line.trim() !== '')
+    .map(parseCsvLine)
+    .filter((chapter): chapter is BunnyChapter => chapter !== null);
 
-  if (chapters.length === 0) {
-    throw new Error("No valid chapters found in the data. Please check the CSV format.");
-  }
+/**
+ * Returns the 1-based line numbers of non-empty CSV lines that could not be parsed
+ * (and would otherwise be silently dropped on upload).
+ */
+export const findInvalidCsvLines = (csvContent: string): number[] =>
+  csvContent
+    .split('\n')
+    .flatMap((line, i) => line.trim() !== '' && parseCsvLine(line) === null ? [i + 1] : []);
 
-  if (!libraryId) {
-    throw new Error("Missing Library ID.");
-  }
+/**
+ * Serializes chapters back into the CSV format (start,end,title) used by the editor.
+ */
+export const chaptersToCsv = (chapters: BunnyChapter[]): string =>
+  chapters.map(ch => `${ch.start},${ch.end},${ch.title}`).join('\n');
 
+// Bunny.net video IDs are GUIDs; the API routes reject anything else
+const VIDEO_GUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Whether the value is a complete video GUID.
+ */
+export const isVideoGuid = (value: string): boolean => VIDEO_GUID_PATTERN.test(value.trim());
+
+/**
+ * Calls one of our internal API routes and unwraps the JSON response.
+ * POSTs `payload` when given, otherwise issues a GET.
+ * Handles timeouts, the "backend not deployed" HTML fallback and server error details.
+ */
+const callApi = async (route: string, payload?: unknown): Promise<any> => {
   // AbortController for Timeout
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 seconds timeout
 
   try {
-    const response = await fetch('/api/bunny', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({
-        libraryId: libraryId.trim(),
-        videoId: videoId.trim(),
-        chapters
-      }),
-      signal: controller.signal
-    });
+    const response = await fetch(route, payload === undefined
+      ? { method: 'GET', headers: authHeaders(), signal: controller.signal }
+      : {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...authHeaders(),
+          },
+          body: JSON.stringify(payload),
+          signal: controller.signal
+        });
     
     clearTimeout(timeoutId);
 
-    const contentType = response.headers.get("content-type");
     const text = await response.text();
 
     // 1. Check for HTML (This is the #1 cause of "Not Working" - it means 404 Not Found)
     if (text.trim().startsWith("<!DOCTYPE") || text.trim().startsWith("<html")) {
-      console.error("[BunnyService] 404 Error - Backend File Not Found");
+      console.error(`[BunnyService] 404 Error - Backend File Not Found (${route})`);
       throw new Error(
         "CRITICAL ERROR: Backend Function Not Found (404). \n" +
-        "You likely have 'api/bunny.js' inside the 'components' folder. \n" +
-        "Please MOVE 'api/bunny.js' to the ROOT folder (same level as package.json) and Redeploy."
+        "You likely have the 'api' folder inside the 'components' folder. \n" +
+        "Please MOVE 'api/' to the ROOT folder (same level as package.json) and Redeploy."
       );
     }
 
@@ -107,6 +95,10 @@ export const updateBunnyChapters = async (
     }
 
     // 3. Handle Logic Errors
+    if (response.status === 401) {
+      notifySessionExpired();
+    }
+
     if (!response.ok || data.error) {
       console.error("[BunnyService] API Error:", data);
       
@@ -120,8 +112,8 @@ export const updateBunnyChapters = async (
       }
       throw new Error(msg);
     }
-    
-    console.log("[BunnyService] Update Success:", data);
+
+    return data;
 
   } catch (error: any) {
     clearTimeout(timeoutId);
@@ -131,4 +123,186 @@ export const updateBunnyChapters = async (
     }
     throw error; // Re-throw so the UI can display it
   }
-};
\ No newline at end of file
+};
+
+/**
+ * Sends the chapter data to our internal secure API route.
+ */
+export const updateBunnyChapters = async (
+  apiKey: string, 
+  libraryId: string,
+  videoId: string,
+  chapters: BunnyChapter[],
+  restoredFrom?: string // Audit entry whose snapshot is being restored
+): Promise<void> => {
+  console.log(`[BunnyService] Initiating update for Lib: ${libraryId}, Video: ${videoId}`);
+
+  if (chapters.length === 0) {
+    throw new Error("No valid chapters found in the data. Please check the CSV format.");
+  }
+
+  if (!libraryId) {
+    throw new Error("Missing Library ID.");
+  }
+
+  const data = await callApi('/api/bunny', {
+    libraryId: libraryId.trim(),
+    videoId: videoId.trim(),
+    chapters: chapters.map(({ title, start, end }) => ({ title, start, end })),
+    ...(restoredFrom ? { restoredFrom } : {})
+  });
+
+  console.log("[BunnyService] Update Success:", data);
+};
+
+/**
+ * Writes the title, meta tags, moments and/or chapters of a video in one request.
+ * Fields left out of `update` are not changed on Bunny.net.
+ */
+export const updateBunnyVideoMetadata = async (
+  libraryId: string,
+  videoId: string,
+  update: VideoMetadataUpdate
+): Promise<void> => {
+  console.log(`[BunnyService] Updating metadata (${Object.keys(update).join(', ')}) for Lib: ${libraryId}, Video: ${videoId}`);
+
+  if (Object.keys(update).length === 0) {
+    throw new Error("Select at least one field to update.");
+  }
+
+  const data = await callApi('/api/bunny', {
+    libraryId: libraryId.trim(),
+    videoId: videoId.trim(),
+    ...update,
+    ...(update.chapters ? { chapters: update.chapters.map(({ title, start, end }) => ({ title, start, end })) } : {})
+  });
+
+  console.log("[BunnyService] Metadata Update Success:", data);
+};
+
+/**
+ * Uploads a caption file (SRT or VTT) as a caption track on the video.
+ * Bunny.net replaces any existing track with the same language code.
+ */
+export const uploadBunnyCaptions = async (
+  libraryId: string,
+  videoId: string,
+  captions: BunnyCaptionTrack,
+  restoredFrom?: string // Audit entry whose snapshot is being restored
+): Promise<void> => {
+  console.log(`[BunnyService] Uploading captions (${captions.srclang}) for Lib: ${libraryId}, Video: ${videoId}`);
+
+  if (!captions.content || !captions.content.trim()) {
+    throw new Error("No caption content to upload.");
+  }
+
+  if (!libraryId) {
+    throw new Error("Missing Library ID.");
+  }
+
+  if (!captions.srclang.trim()) {
+    throw new Error("Missing caption language code.");
+  }
+
+  const data = await callApi('/api/captions', {
+    libraryId: libraryId.trim(),
+    videoId: videoId.trim(),
+    srclang: captions.srclang.trim(),
+    label: captions.label.trim() || captions.srclang.trim(),
+    captions: captions.content,
+    ...(restoredFrom ? { restoredFrom } : {})
+  });
+
+  console.log("[BunnyService] Caption Upload Success:", data);
+};
+
+/**
+ * Reads the current state of a video from Bunny.net (length, title, chapters, caption tracks, encode status).
+ */
+export const fetchBunnyVideo = async (libraryId: string, videoId: string): Promise<BunnyVideoInfo> => {
+  if (!libraryId.trim() || !videoId.trim()) {
+    throw new Error("Library ID and Video GUID are required.");
+  }
+
+  const query = new URLSearchParams({ libraryId: libraryId.trim(), videoId: videoId.trim() });
+  const data = await callApi(`/api/video?${query}`);
+  return data.video as BunnyVideoInfo;
+};
+
+/**
+ * Loads the library registry configured on the server.
+ */
+export const fetchLibraries = async (): Promise<BunnyLibrary[]> => {
+  const data = await callApi('/api/libraries');
+  return data.libraries as BunnyLibrary[];
+};
+
+/**
+ * Checks that the server holds a working API key for the library.
+ */
+export const checkLibraryHealth = async (libraryId: string): Promise<LibraryHealth> => {
+  const query = new URLSearchParams({ check: libraryId.trim() });
+  const data = await callApi(`/api/libraries?${query}`);
+  return data.health as LibraryHealth;
+};
+
+/**
+ * Lists one page of a library's videos, newest first, optionally filtered by a title search.
+ */
+export const listBunnyVideos = async (
+  libraryId: string,
+  options: { page?: number; itemsPerPage?: number; search?: string } = {}
+): Promise<BunnyVideoPage> => {
+  if (!libraryId.trim()) {
+    throw new Error("Library ID is required.");
+  }
+
+  const query = new URLSearchParams({
+    libraryId: libraryId.trim(),
+    page: String(options.page || 1),
+    itemsPerPage: String(options.itemsPerPage || 25),
+  });
+  if (options.search?.trim()) query.set('search', options.search.trim());
+
+  const data = await callApi(`/api/videos?${query}`);
+  return {
+    page: data.page,
+    itemsPerPage: data.itemsPerPage,
+    totalItems: data.totalItems,
+    videos: data.videos
+  };
+};
+
+/**
+ * Loads audit entries (newest first), optionally for one library and/or video,
+ * along with whether the log persists and restores are allowed.
+ */
+export const fetchAuditLog = async (filter: { libraryId?: string; videoId?: string; limit?: number } = {}): Promise<AuditLogResult> => {
+  const query = new URLSearchParams();
+  if (filter.libraryId?.trim()) query.set('libraryId', filter.libraryId.trim());
+  if (filter.videoId?.trim()) query.set('videoId', filter.videoId.trim());
+  if (filter.limit) query.set('limit', String(filter.limit));
+
+  const data = await callApi(`/api/audit?${query}`);
+  return {
+    entries: data.entries as AuditEntry[],
+    ephemeral: !!data.ephemeral,
+    restoreBlockedReason: data.restoreBlockedReason ?? null
+  };
+};
+
+// Bunny.net video "status" codes
+const VIDEO_STATUS_LABELS: Record<number, string> = {
+  0: 'Created',
+  1: 'Uploaded',
+  2: 'Processing',
+  3: 'Transcoding',
+  4: 'Finished',
+  5: 'Error',
+  6: 'Upload Failed',
+  7: 'JIT Segmenting',
+  8: 'JIT Playlists Created',
+};
+
+export const describeVideoStatus = (status: number | null): string =>
+  status === null ? 'Unknown' : VIDEO_STATUS_LABELS[status] || `Status ${status}`;
@@ -0,0 +1,81 @@
+import { TranscriptCue } from "../types";
+import { serializeSrt } from "./captionFormat";
+
+/**
+ * A time-bounded slice of the transcript that is cleaned in a single model call.
+ */
+export interface CaptionWindow {
+  index: number;      // 0-based position
+  startMs: number;    // Start of the first cue in the window
+  endMs: number;      // End of the last cue in the window
+  cues: TranscriptCue[];
+}
+
+// ~8 minutes of speech produces an SRT comfortably below the 8192 output token cap.
+export const CAPTION_WINDOW_MS = 8 * 60 * 1000;
+
+/**
+ * Splits cues into consecutive windows of roughly `windowMs`.
+ * Cues are never split: a cue belongs to the window its start time falls into.
+ */
+export const splitIntoWindows = (cues: TranscriptCue[], windowMs: number = CAPTION_WINDOW_MS): CaptionWindow[] => {
+  const windows: CaptionWindow[] = [];
+  let current: TranscriptCue[] = [];
+  let windowStart = 0;
+
+  const flush = () => {
+    if (current.length === 0) return;
+    windows.push({
+      index: windows.length,
+      startMs: current[0].startMs,
+      endMs: current.reduce((max, cue) => Math.max(max, cue.endMs), 0),
+      cues: current
+    });
+    current = [];
+  };
+
+  for (const cue of cues) {
+    if (current.length === 0) {
+      windowStart = cue.startMs;
+    } else if (cue.startMs - windowStart >= windowMs) {
+      flush();
+      windowStart = cue.startMs;
+    }
+    current.push(cue);
+  }
+  flush();
+
+  return windows;
+};
+
+/**
+ * Serializes a window as SRT input for the model (speaker names kept, the prompt removes them).
+ */
+export const windowToSrt = (window: CaptionWindow): string => serializeSrt(window.cues, true);
+
+/**
+ * Merges the cleaned cues of every window into one SRT:
+ * sorted, sequentially numbered and without overlaps at window boundaries.
+ */
+export const stitchCaptionWindows = (cleanedWindows: TranscriptCue[][]): string => {
+  const merged = cleanedWindows
+    .flat()
+    .map(cue => ({ ...cue }))
+    .sort((a, b) => a.startMs - b.startMs);
+
+  for (let i = 1; i < merged.length; i++) {
+    const prev = merged[i - 1];
+    const cue = merged[i];
+    if (cue.startMs < prev.endMs) {
+      // Trim the previous cue when possible, otherwise push this one later
+      if (cue.startMs > prev.startMs) {
+        prev.endMs = cue.startMs;
+      } else {
+        cue.startMs = prev.endMs;
+        cue.endMs = Math.max(cue.endMs, cue.startMs + 1);
+      }
+    }
+  }
+
+  return serializeSrt(merged);
+};
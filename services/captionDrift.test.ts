@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { TranscriptCue } from '../types';
+import { compareCaptionDrift, DRIFT_WINDOW_MS } from './captionDrift';
+import { TranscriptParseError } from './transcriptParser';
+
+const sourceCue = (index: number, startMs: number, endMs: number, text: string): TranscriptCue =>
+  ({ index, startMs, endMs, speaker: null, text });
+
+const SOURCE = [
+  sourceCue(1, 1000, 5000, 'Um so today we will look at the chapter editor'),
+  sourceCue(2, 31000, 36000, 'Then we upload the captions to the library and check them'),
+];
+
+describe('compareCaptionDrift', () => {
+  it('ignores removed filler words and punctuation changes', () => {
+    const report = compareCaptionDrift(SOURCE, [
+      '1\n00:00:01,000 --> 00:00:05,000\nSo, today we will look at the chapter editor.',
+      '2\n00:00:31,000 --> 00:00:36,000\nThen we upload the captions to the library and check them.',
+    ].join('\n\n'));
+
+    expect(report.coverage).toBe(100);
+    expect(report.flaggedCount).toBe(0);
+    expect(report.segments.map(segment => [segment.startMs, segment.endMs])).toEqual([
+      [0, DRIFT_WINDOW_MS],
+      [DRIFT_WINDOW_MS, 36000],
+    ]);
+  });
+
+  it('flags the window where words were lost', () => {
+    const report = compareCaptionDrift(SOURCE, [
+      '1\n00:00:01,000 --> 00:00:05,000\nSo today we will look at the chapter editor.',
+      '2\n00:00:31,000 --> 00:00:36,000\nThen we check them.',
+    ].join('\n\n'));
+
+    expect(report.flaggedCount).toBe(1);
+    expect(report.segments[1]).toMatchObject({ status: 'lost', lostWords: 7, addedWords: 0, coverage: 36 });
+    expect(report.segments[1].diff.filter(token => token.type === 'removed').map(token => token.text))
+      .toEqual(['upload', 'the', 'captions', 'to', 'the', 'library', 'and']);
+  });
+
+  it('flags rewritten and added text', () => {
+    const report = compareCaptionDrift(SOURCE, [
+      '1\n00:00:01,000 --> 00:00:05,000\nWelcome everyone to a brand new session overview.',
+      '2\n00:00:31,000 --> 00:00:36,000\nThen we upload the captions to the library and check them carefully twice over again.',
+    ].join('\n\n'));
+
+    expect(report.segments.map(segment => segment.status)).toEqual(['rewritten', 'added']);
+  });
+
+  it('throws when the cleaned captions cannot be parsed', () => {
+    expect(() => compareCaptionDrift(SOURCE, '1\n00:00:0x,000 --> 00:00:02,000\nBroken\n')).toThrow(TranscriptParseError);
+  });
+});
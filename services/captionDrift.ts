@@ -0,0 +1,159 @@
+import { TranscriptCue } from "../types";
+import { parseTranscript } from "./transcriptParser";
+
+// Size of the time buckets the two transcripts are aligned on.
+export const DRIFT_WINDOW_MS = 30 * 1000;
+
+// Words the caption prompt is allowed to remove; they never count as lost.
+const FILLER_WORDS = new Set(['uh', 'uhh', 'um', 'umm', 'uhm', 'er', 'erm', 'ah', 'hmm', 'mm', 'mhm']);
+
+// A segment is flagged when more than this share of its words differ (and at least MIN_FLAGGED_WORDS do)
+const DRIFT_THRESHOLD = 0.15;
+const MIN_FLAGGED_WORDS = 3;
+
+export type DriftStatus = 'ok' | 'lost' | 'added' | 'rewritten';
+
+export interface DiffToken {
+  type: 'same' | 'removed' | 'added';
+  text: string;
+}
+
+export interface DriftSegment {
+  startMs: number;
+  endMs: number;
+  sourceWordCount: number;
+  cleanedWordCount: number;
+  lostWords: number;    // In the source, missing from the captions
+  addedWords: number;   // In the captions, not in the source
+  coverage: number;     // 0-100, share of source words kept
+  status: DriftStatus;
+  diff: DiffToken[];
+}
+
+export interface DriftReport {
+  coverage: number;     // 0-100 across the whole session
+  segments: DriftSegment[];
+  flaggedCount: number;
+}
+
+interface TimedWord {
+  text: string; // As written
+  key: string;  // Lowercased, punctuation stripped
+  timeMs: number;
+}
+
+const normalizeWord = (word: string): string =>
+  word.toLowerCase().replace(/[^\p{L}\p{N}']/gu, '').replace(/^'+|'+$/g, '');
+
+/**
+ * Spreads each cue's words evenly over its duration, so a cue that was split into
+ * several captions lands in the same time buckets as the original.
+ */
+const toTimedWords = (cues: TranscriptCue[]): TimedWord[] =>
+  cues.flatMap(cue => {
+    const words = cue.text.split(/\s+/).filter(Boolean);
+    const step = (cue.endMs - cue.startMs) / Math.max(words.length, 1);
+    return words
+      .map((text, i) => ({ text, key: normalizeWord(text), timeMs: cue.startMs + step * (i + 0.5) }))
+      .filter(word => word.key && !FILLER_WORDS.has(word.key));
+  });
+
+/**
+ * Word-level LCS diff between two token lists.
+ */
+const diffWords = (source: TimedWord[], cleaned: TimedWord[]): DiffToken[] => {
+  const n = source.length;
+  const m = cleaned.length;
+  const table: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] = source[i].key === cleaned[j].key
+        ? table[i + 1][j + 1] + 1
+        : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+
+  const diff: DiffToken[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (source[i].key === cleaned[j].key) {
+      diff.push({ type: 'same', text: cleaned[j].text });
+      i++;
+      j++;
+    } else if (table[i + 1][j] >= table[i][j + 1]) {
+      diff.push({ type: 'removed', text: source[i++].text });
+    } else {
+      diff.push({ type: 'added', text: cleaned[j++].text });
+    }
+  }
+  while (i < n) diff.push({ type: 'removed', text: source[i++].text });
+  while (j < m) diff.push({ type: 'added', text: cleaned[j++].text });
+
+  return diff;
+};
+
+const classify = (sourceCount: number, cleanedCount: number, lost: number, added: number): DriftStatus => {
+  const lostFlagged = lost >= MIN_FLAGGED_WORDS && lost / Math.max(sourceCount, 1) > DRIFT_THRESHOLD;
+  const addedFlagged = added >= MIN_FLAGGED_WORDS && added / Math.max(cleanedCount, 1) > DRIFT_THRESHOLD;
+
+  if (lostFlagged && addedFlagged) return 'rewritten';
+  if (lostFlagged) return 'lost';
+  if (addedFlagged) return 'added';
+  return 'ok';
+};
+
+/**
+ * Aligns the cleaned SRT with the original cues by time window and flags segments
+ * where words were lost, added or rewritten beyond filler removal.
+ * Throws TranscriptParseError if the cleaned SRT cannot be parsed (run Auto-Repair first).
+ */
+export const compareCaptionDrift = (sourceCues: TranscriptCue[], cleanedSrt: string): DriftReport => {
+  const cleanedCues = parseTranscript(cleanedSrt, 'cleaned.srt', { detectSpeakers: false }).cues;
+  const sourceWords = toTimedWords(sourceCues);
+  const cleanedWords = toTimedWords(cleanedCues);
+
+  const lastMs = Math.max(
+    sourceCues.reduce((max, cue) => Math.max(max, cue.endMs), 0),
+    cleanedCues.reduce((max, cue) => Math.max(max, cue.endMs), 0)
+  );
+
+  const segments: DriftSegment[] = [];
+  let totalSource = 0;
+  let totalKept = 0;
+
+  for (let startMs = 0; startMs < lastMs; startMs += DRIFT_WINDOW_MS) {
+    const endMs = startMs + DRIFT_WINDOW_MS;
+    const inWindow = (word: TimedWord) => word.timeMs >= startMs && word.timeMs < endMs;
+    const source = sourceWords.filter(inWindow);
+    const cleaned = cleanedWords.filter(inWindow);
+    if (source.length === 0 && cleaned.length === 0) continue;
+
+    const diff = diffWords(source, cleaned);
+    const kept = diff.filter(token => token.type === 'same').length;
+    const lost = source.length - kept;
+    const added = cleaned.length - kept;
+
+    totalSource += source.length;
+    totalKept += kept;
+
+    segments.push({
+      startMs,
+      endMs: Math.min(endMs, lastMs),
+      sourceWordCount: source.length,
+      cleanedWordCount: cleaned.length,
+      lostWords: lost,
+      addedWords: added,
+      coverage: source.length > 0 ? Math.round((kept / source.length) * 100) : 100,
+      status: classify(source.length, cleaned.length, lost, added),
+      diff
+    });
+  }
+
+  return {
+    coverage: totalSource > 0 ? Math.round((totalKept / totalSource) * 1000) / 10 : 100,
+    segments,
+    flaggedCount: segments.filter(segment => segment.status !== 'ok').length
+  };
+};
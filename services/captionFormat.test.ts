@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { convertCaptions, detectCaptionFormat, formatSrtTimestamp, formatVttTimestamp, serializeSrt } from './captionFormat';
+
+const SRT = [
+  '1',
+  '00:00:01,000 --> 00:00:02,500',
+  '{\\an8}<i>x < y</i> & a -> b',
+  '',
+  '2',
+  '00:00:03,000 --> 00:00:04,000',
+  '<font color="red">Red</font> <b>bold</b>',
+  '',
+  '3',
+  '00:00:09,000 --> 00:00:10,000',
+  'After a pause.',
+].join('\n');
+
+describe('timestamps', () => {
+  it('formats milliseconds for SRT and WebVTT', () => {
+    expect(formatSrtTimestamp(3723456)).toBe('01:02:03,456');
+    expect(formatVttTimestamp(3723456)).toBe('01:02:03.456');
+  });
+});
+
+describe('serializeSrt', () => {
+  it('numbers cues from 1', () => {
+    expect(serializeSrt([{ startMs: 0, endMs: 1000, text: 'Hi' }])).toContain('1\n00:00:00,000 --> 00:00:01,000\nHi');
+  });
+});
+
+describe('detectCaptionFormat', () => {
+  it('recognises WebVTT by its header', () => {
+    expect(detectCaptionFormat('\uFEFFWEBVTT\n\n')).toBe('vtt');
+    expect(detectCaptionFormat(SRT)).toBe('srt');
+  });
+});
+
+describe('convertCaptions', () => {
+  it('returns content already in the target format unchanged', () => {
+    expect(convertCaptions(SRT, 'srt')).toBe(SRT);
+  });
+
+  it('escapes text and drops SRT-only markup going to WebVTT, keeping <i>, <b> and <u>', () => {
+    const vtt = convertCaptions(SRT, 'vtt');
+    expect(vtt.startsWith('WEBVTT\n\n00:00:01.000 --> 00:00:02.500\n')).toBe(true);
+    expect(vtt).toContain('<i>x &lt; y</i> &amp; a -&gt; b');
+    expect(vtt).toContain('Red <b>bold</b>');
+  });
+
+  it('round-trips WebVTT back to the same SRT text', () => {
+    const srt = convertCaptions(convertCaptions(SRT, 'vtt'), 'srt');
+    expect(srt).toContain('<i>x < y</i> & a -> b');
+    expect(srt).toContain('3\n00:00:09,000 --> 00:00:10,000\nAfter a pause.');
+  });
+
+  it('turns WebVTT voices into speaker prefixes and drops other spans going to SRT', () => {
+    const srt = convertCaptions('WEBVTT\n\n00:00:01.000 --> 00:00:02.000 align:start\n<v Ana>Hi <c.loud>there</c> &amp; <i>welcome</i>\n', 'srt');
+    expect(srt).toBe('1\n00:00:01,000 --> 00:00:02,000\nAna: Hi there & <i>welcome</i>');
+  });
+
+  it('writes plain text paragraphs that break at pauses and keep literal brackets', () => {
+    expect(convertCaptions(SRT, 'txt')).toBe('x < y & a -> b Red bold\n\nAfter a pause.\n');
+  });
+});
@@ -0,0 +1,167 @@
+import { CaptionFormat, TranscriptCue } from "../types";
+import { TranscriptParseError, parseTimestamp, splitBlocks } from "./transcriptParser";
+
+/**
+ * Formats milliseconds as an SRT timestamp: HH:MM:SS,mmm
+ */
+export const formatSrtTimestamp = (ms: number): string => {
+  const safe = Math.max(0, Math.round(ms));
+  const h = Math.floor(safe / 3600000);
+  const m = Math.floor((safe % 3600000) / 60000);
+  const s = Math.floor((safe % 60000) / 1000);
+  const millis = safe % 1000;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}:${String(s).padStart(2, '0')},${String(millis).padStart(3, '0')}`;
+};
+
+/**
+ * Serializes cues into SRT, numbering them sequentially from 1.
+ * Pass `includeSpeakers` to keep "Speaker: " prefixes (useful when sending raw cues to the model).
+ */
+export const serializeSrt = (
+  cues: (Pick<TranscriptCue, 'startMs' | 'endMs' | 'text'> & { speaker?: string | null })[],
+  includeSpeakers = false
+): string =>
+  cues
+    .map((cue, i) => {
+      const text = includeSpeakers && cue.speaker ? `${cue.speaker}: ${cue.text}` : cue.text;
+      return `${i + 1}\n${formatSrtTimestamp(cue.startMs)} --> ${formatSrtTimestamp(cue.endMs)}\n${text}`;
+    })
+    .join('\n\n');
+
+/**
+ * Formats milliseconds as a WebVTT timestamp: HH:MM:SS.mmm
+ */
+export const formatVttTimestamp = (ms: number): string => formatSrtTimestamp(ms).replace(',', '.');
+
+// File extension and display name for each caption output. Only timed formats can be uploaded to Bunny.
+export const CAPTION_FORMATS: Record<CaptionFormat, { label: string; extension: string; timed: boolean }> = {
+  srt: { label: 'SRT', extension: 'srt', timed: true },
+  vtt: { label: 'WebVTT', extension: 'vtt', timed: true },
+  txt: { label: 'Plain text', extension: 'txt', timed: false },
+};
+
+// Plain-text output starts a new paragraph after a pause this long
+const PARAGRAPH_GAP_MS = 2000;
+
+const TIMING_PATTERN = /^(\S+)\s+-->\s+(\S+)(.*)$/;
+
+// A cue as written in the file: exact timings, VTT cue settings, and the text lines with their markup
+interface CaptionBlock {
+  startMs: number;
+  endMs: number;
+  settings: string;   // e.g. "align:start position:10%" (VTT only)
+  lines: string[];
+}
+
+/**
+ * Tells SRT from WebVTT by the mandatory "WEBVTT" header.
+ */
+export const detectCaptionFormat = (content: string): 'srt' | 'vtt' =>
+  content.replace(/^\uFEFF/, '').trimStart().startsWith('WEBVTT') ? 'vtt' : 'srt';
+
+/**
+ * Reads SRT or VTT cues without touching their text. Cue numbers, cue identifiers
+ * and NOTE/STYLE/REGION blocks are dropped. Throws TranscriptParseError on a bad timing line.
+ */
+const readCaptionBlocks = (content: string): CaptionBlock[] => {
+  const blocks = splitBlocks(content);
+  const isVtt = detectCaptionFormat(content) === 'vtt';
+  const cues: CaptionBlock[] = [];
+
+  blocks.forEach((block, i) => {
+    const first = block.lines[0].trim();
+    if (isVtt && (i === 0 || first.startsWith('NOTE') || first === 'STYLE' || first === 'REGION')) return;
+
+    const timingIndex = block.lines.findIndex((line, j) => j < 2 && line.includes('-->'));
+    if (timingIndex === -1) {
+      throw new TranscriptParseError(`Caption block is missing its "start --> end" timing line.`, block.startLine);
+    }
+
+    const timingLine = block.lines[timingIndex].trim();
+    const match = timingLine.match(TIMING_PATTERN);
+    const startMs = match ? parseTimestamp(match[1]) : null;
+    const endMs = match ? parseTimestamp(match[2]) : null;
+    if (!match || startMs === null || endMs === null) {
+      throw new TranscriptParseError(`Invalid timing line "${timingLine}".`, block.startLine + timingIndex);
+    }
+
+    cues.push({ startMs, endMs, settings: match[3].trim(), lines: block.lines.slice(timingIndex + 1) });
+  });
+
+  return cues;
+};
+
+/**
+ * Drops SRT-only markup that WebVTT players show literally ({\an8} positioning, <font> tags)
+ * and escapes bare ampersands and angle brackets, which WebVTT requires. <i>, <b> and <u> are kept.
+ */
+const srtTextToVtt = (line: string): string =>
+  line
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/<\/?font[^>]*>/gi, '')
+    .replace(/&(?![a-z]+;|#\d+;)/gi, '&amp;')
+    .replace(/<\/?[ibu]>|[<>]/gi, match => match === '<' ? '&lt;' : match === '>' ? '&gt;' : match.toLowerCase());
+
+/**
+ * Keeps the tags SRT players understand (<i>, <b>, <u>), turns <v Name> into "Name: " and drops the rest
+ * (classes, language spans, karaoke timestamps).
+ */
+const vttTextToSrt = (line: string): string =>
+  line
+    .replace(/<v(?:\.[\w.-]+)?\s+([^>]+)>/g, '$1: ')
+    .replace(/<(?!\/?[ibu]>)[^>]+>/g, '')
+    .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&');
+
+// Strips markup only, so a literal "<" or ">" in the speech survives
+const toPlainLine = (line: string, fromVtt: boolean): string =>
+  (fromVtt ? vttTextToSrt(line) : line)
+    .replace(/\{\\[^}]*\}/g, '')
+    .replace(/<\/?(?:[ibu]|font\b[^>]*)>/gi, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+const blocksToSrt = (cues: CaptionBlock[], fromVtt: boolean): string =>
+  cues
+    .map((cue, i) => {
+      const text = fromVtt ? cue.lines.map(vttTextToSrt) : cue.lines;
+      return `${i + 1}\n${formatSrtTimestamp(cue.startMs)} --> ${formatSrtTimestamp(cue.endMs)}\n${text.join('\n')}`;
+    })
+    .join('\n\n');
+
+const blocksToVtt = (cues: CaptionBlock[], fromVtt: boolean): string =>
+  'WEBVTT\n\n' + cues
+    .map(cue => {
+      const settings = fromVtt && cue.settings ? ` ${cue.settings}` : '';
+      const text = fromVtt ? cue.lines : cue.lines.map(srtTextToVtt);
+      return `${formatVttTimestamp(cue.startMs)} --> ${formatVttTimestamp(cue.endMs)}${settings}\n${text.join('\n')}`;
+    })
+    .join('\n\n');
+
+/**
+ * Joins cue text into paragraphs, breaking wherever the speech pauses.
+ */
+const blocksToText = (cues: CaptionBlock[], fromVtt: boolean): string => {
+  const paragraphs: string[][] = [];
+  cues.forEach((cue, i) => {
+    const text = cue.lines.map(line => toPlainLine(line, fromVtt)).filter(Boolean).join(' ');
+    if (!text) return;
+    const startsParagraph = i === 0 || cue.startMs - cues[i - 1].endMs >= PARAGRAPH_GAP_MS;
+    if (startsParagraph || paragraphs.length === 0) paragraphs.push([]);
+    paragraphs[paragraphs.length - 1].push(text);
+  });
+  return paragraphs.map(words => words.join(' ')).join('\n\n') + '\n';
+};
+
+/**
+ * Converts SRT or WebVTT captions to another caption format, locally.
+ * Timings are kept to the millisecond. Going to VTT keeps VTT cue settings; going to SRT drops them
+ * along with NOTE/STYLE/REGION blocks. Content already in the target format is returned unchanged.
+ */
+export const convertCaptions = (content: string, to: CaptionFormat): string => {
+  const from = detectCaptionFormat(content);
+  if (from === to) return content;
+
+  const cues = readCaptionBlocks(content);
+  if (to === 'txt') return blocksToText(cues, from === 'vtt');
+  return to === 'vtt' ? blocksToVtt(cues, from === 'vtt') : blocksToSrt(cues, from === 'vtt');
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { BunnyChapter } from '../types';
+import { autoFixChapters, validateChapters } from './chapterRules';
+
+const chapter = (title: string, start: number, end: number): BunnyChapter => ({ title, start, end });
+
+const VALID = [chapter('Intro', 0, 60), chapter('Demo', 60, 300), chapter('Q&A', 300, 600)];
+
+describe('validateChapters', () => {
+  it('accepts contiguous chapters that fit the video', () => {
+    expect(validateChapters(VALID, { durationSeconds: 600 })).toEqual({ issues: [], errorCount: 0, warningCount: 0 });
+  });
+
+  it('reports each broken rule on its row, sorted by row', () => {
+    const result = validateChapters([
+      chapter('Intro', 10, 60),
+      chapter(' ', 90, 120),
+      chapter('Late', 80, 700),
+    ], { durationSeconds: 600 });
+
+    expect(result.issues.map(({ row, rule }) => [row, rule])).toEqual([
+      [0, 'starts-at-zero'],
+      [1, 'has-title'],
+      [1, 'contiguous'],
+      [2, 'sorted'],
+      [2, 'within-duration'],
+    ]);
+    expect(result.errorCount).toBe(3);
+    expect(result.warningCount).toBe(2);
+  });
+
+  it('flags duplicates, overlaps and chapters that end before they start', () => {
+    const rules = validateChapters([
+      chapter('A', 0, 100),
+      chapter('B', 50, 40),
+      chapter('C', 50, 120),
+    ], { durationSeconds: null }).issues.map(issue => issue.rule);
+
+    expect(rules).toEqual(expect.arrayContaining(['positive-length', 'no-overlap', 'no-duplicates']));
+  });
+
+  it('applies the library policy', () => {
+    const policy = { minChapterSeconds: 90, maxChapters: 2, blockOnWarnings: true };
+    const result = validateChapters([chapter('Intro', 5, 60), ...VALID.slice(1)], { durationSeconds: 600, policy });
+
+    expect(result.issues.map(issue => issue.rule)).toEqual(['starts-at-zero', 'min-length', 'max-count']);
+    expect(result.warningCount).toBe(0);
+    expect(result.errorCount).toBe(3);
+  });
+});
+
+describe('autoFixChapters', () => {
+  it('sorts, de-duplicates, closes gaps and clamps to the video length', () => {
+    const fixed = autoFixChapters([
+      chapter('Demo', 70, 200),
+      chapter(' Intro ', 5, 50),
+      chapter('Duplicate', 70, 90),
+      chapter('Past the end', 650, 700),
+    ], { durationSeconds: 600 });
+
+    expect(fixed).toEqual([chapter('Intro', 0, 70), chapter('Demo', 70, 600)]);
+    expect(validateChapters(fixed, { durationSeconds: 600 }).issues).toEqual([]);
+  });
+});
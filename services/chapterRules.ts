@@ -0,0 +1,166 @@
+import { BunnyChapter, ChapterPolicy } from "../types";
+
+export type ChapterRuleId =
+  | 'has-title'
+  | 'positive-length'
+  | 'starts-at-zero'
+  | 'sorted'
+  | 'no-duplicates'
+  | 'no-overlap'
+  | 'contiguous'
+  | 'within-duration'
+  | 'min-length'
+  | 'max-count';
+
+export interface ChapterIssue {
+  row: number;               // 0-based index into the chapter list
+  rule: ChapterRuleId;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface ChapterRuleContext {
+  durationSeconds: number | null; // Video length, when known
+  policy?: ChapterPolicy;         // Library-specific limits from the registry
+}
+
+export interface ChapterRule {
+  id: ChapterRuleId;
+  name: string;
+  check: (chapters: BunnyChapter[], context: ChapterRuleContext) => ChapterIssue[];
+}
+
+export interface ChapterValidationResult {
+  issues: ChapterIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+/**
+ * Helper for rules that compare each chapter with the one before it.
+ */
+const eachPair = (
+  chapters: BunnyChapter[],
+  test: (prev: BunnyChapter, chapter: BunnyChapter) => string | null,
+  rule: ChapterRuleId,
+  severity: ChapterIssue['severity']
+): ChapterIssue[] =>
+  chapters.slice(1).flatMap((chapter, i) => {
+    const message = test(chapters[i], chapter);
+    return message ? [{ row: i + 1, rule, severity, message }] : [];
+  });
+
+export const CHAPTER_RULES: ChapterRule[] = [
+  {
+    id: 'has-title',
+    name: 'Every chapter has a title',
+    check: (chapters) => chapters.flatMap((ch, row) =>
+      ch.title.trim() ? [] : [{ row, rule: 'has-title' as const, severity: 'error' as const, message: 'Title is empty.' }]),
+  },
+  {
+    id: 'positive-length',
+    name: 'End is after start',
+    check: (chapters) => chapters.flatMap((ch, row) =>
+      ch.end > ch.start ? [] : [{ row, rule: 'positive-length' as const, severity: 'error' as const, message: `Ends at ${ch.end}s, which is not after its start (${ch.start}s).` }]),
+  },
+  {
+    id: 'starts-at-zero',
+    name: 'First chapter starts at 0',
+    check: (chapters) => chapters.length > 0 && chapters[0].start !== 0
+      ? [{ row: 0, rule: 'starts-at-zero', severity: 'warning', message: `First chapter starts at ${chapters[0].start}s instead of 0s.` }]
+      : [],
+  },
+  {
+    id: 'sorted',
+    name: 'Chapters are in order',
+    check: (chapters) => eachPair(chapters,
+      (prev, ch) => ch.start < prev.start ? `Starts at ${ch.start}s, before the previous chapter (${prev.start}s).` : null,
+      'sorted', 'error'),
+  },
+  {
+    id: 'no-duplicates',
+    name: 'No duplicate start times',
+    check: (chapters) => chapters.flatMap((ch, row) => {
+      const first = chapters.findIndex(other => other.start === ch.start);
+      return first !== row
+        ? [{ row, rule: 'no-duplicates' as const, severity: 'error' as const, message: `Same start time (${ch.start}s) as row ${first + 1}.` }]
+        : [];
+    }),
+  },
+  {
+    id: 'no-overlap',
+    name: 'Chapters do not overlap',
+    check: (chapters) => eachPair(chapters,
+      (prev, ch) => ch.start > prev.start && ch.start < prev.end ? `Starts at ${ch.start}s, before the previous chapter ends (${prev.end}s).` : null,
+      'no-overlap', 'error'),
+  },
+  {
+    id: 'contiguous',
+    name: 'No gaps between chapters',
+    check: (chapters) => eachPair(chapters,
+      (prev, ch) => ch.start > prev.end ? `Gap of ${ch.start - prev.end}s after the previous chapter (ends ${prev.end}s).` : null,
+      'contiguous', 'warning'),
+  },
+  {
+    id: 'within-duration',
+    name: 'Chapters fit the video length',
+    check: (chapters, { durationSeconds }) => durationSeconds === null ? [] : chapters.flatMap((ch, row) =>
+      ch.end > durationSeconds
+        ? [{ row, rule: 'within-duration' as const, severity: 'error' as const, message: `Ends at ${ch.end}s, past the end of the video (${durationSeconds}s).` }]
+        : []),
+  },
+  {
+    id: 'min-length',
+    name: 'Chapters meet the library minimum length',
+    check: (chapters, { policy }) => !policy || policy.minChapterSeconds <= 0 ? [] : chapters.flatMap((ch, row) =>
+      ch.end > ch.start && ch.end - ch.start < policy.minChapterSeconds
+        ? [{ row, rule: 'min-length' as const, severity: 'error' as const, message: `Only ${ch.end - ch.start}s long; this library requires at least ${policy.minChapterSeconds}s.` }]
+        : []),
+  },
+  {
+    id: 'max-count',
+    name: 'Chapter count within the library limit',
+    check: (chapters, { policy }) => policy && policy.maxChapters !== null && chapters.length > policy.maxChapters
+      ? [{ row: policy.maxChapters, rule: 'max-count', severity: 'error', message: `${chapters.length} chapters; this library allows at most ${policy.maxChapters}.` }]
+      : [],
+  },
+];
+
+/**
+ * Runs every chapter rule and returns the issues sorted by row. Libraries whose policy sets
+ * `blockOnWarnings` get every warning reported as an error.
+ */
+export const validateChapters = (chapters: BunnyChapter[], context: ChapterRuleContext): ChapterValidationResult => {
+  const issues = CHAPTER_RULES
+    .flatMap(rule => rule.check(chapters, context))
+    .map(issue => (context.policy?.blockOnWarnings ? { ...issue, severity: 'error' as const } : issue))
+    .sort((a, b) => a.row - b.row);
+
+  return {
+    issues,
+    errorCount: issues.filter(issue => issue.severity === 'error').length,
+    warningCount: issues.filter(issue => issue.severity === 'warning').length
+  };
+};
+
+/**
+ * One-click fix: sorts, removes duplicate start times, starts at 0, closes gaps and overlaps
+ * (end = next start) and clamps to the video length. Untitled chapters are kept for the editor to name.
+ */
+export const autoFixChapters = (chapters: BunnyChapter[], { durationSeconds }: ChapterRuleContext): BunnyChapter[] => {
+  const sorted = [...chapters]
+    .map(ch => ({ ...ch, title: ch.title.trim() }))
+    .sort((a, b) => a.start - b.start)
+    .filter((ch, i, all) => i === 0 || ch.start !== all[i - 1].start)
+    .filter(ch => durationSeconds === null || ch.start < durationSeconds);
+
+  if (sorted.length > 0) {
+    sorted[0].start = 0;
+  }
+
+  return sorted.map((ch, i) => {
+    const next = sorted[i + 1];
+    const lastEnd = durationSeconds !== null ? durationSeconds : Math.max(ch.end, ch.start + 1);
+    return { ...ch, end: next ? next.start : lastEnd };
+  });
+};
@@ -0,0 +1,61 @@
+import { BunnyChapter, LocalizedTitles } from "../types";
+import { chaptersToCsv } from "./bunnyService";
+
+/**
+ * The translation of one source title into `srclang`, or '' when there is none
+ * (e.g. a chapter added or renamed after translating).
+ */
+export const translatedTitle = (localizedTitles: LocalizedTitles, srclang: string, sourceTitle: string): string =>
+  localizedTitles[srclang]?.[sourceTitle.trim()]?.trim() ?? '';
+
+/**
+ * The localized titles with one translation set (or replaced).
+ */
+export const withTranslatedTitle = (
+  localizedTitles: LocalizedTitles,
+  srclang: string,
+  sourceTitle: string,
+  title: string
+): LocalizedTitles => ({
+  ...localizedTitles,
+  [srclang]: { ...localizedTitles[srclang], [sourceTitle.trim()]: title },
+});
+
+/**
+ * The chapters with their titles in `srclang`. A chapter without a translation keeps its source title.
+ */
+export const chaptersInLanguage = (
+  chapters: BunnyChapter[],
+  localizedTitles: LocalizedTitles,
+  srclang: string
+): BunnyChapter[] => {
+  if (!localizedTitles[srclang]) return chapters;
+  return chapters.map(ch => ({ ...ch, title: translatedTitle(localizedTitles, srclang, ch.title) || ch.title }));
+};
+
+/**
+ * "start,end,title" CSV for one language, the same format as the chapter editor.
+ */
+export const localizedChaptersCsv = (
+  chapters: BunnyChapter[],
+  localizedTitles: LocalizedTitles,
+  srclang: string
+): string => chaptersToCsv(chaptersInLanguage(chapters, localizedTitles, srclang));
+
+/**
+ * All languages in one file for LMS import:
+ * [{ "start": 0, "end": 59, "titles": { "en": "Introduction", "hi": "..." } }, ...]
+ */
+export const localizedChaptersJson = (
+  chapters: BunnyChapter[],
+  localizedTitles: LocalizedTitles,
+  sourceLanguage: string
+): string =>
+  JSON.stringify(chapters.map(ch => ({
+    start: ch.start,
+    end: ch.end,
+    titles: {
+      [sourceLanguage]: ch.title,
+      ...Object.fromEntries(Object.keys(localizedTitles).map(srclang => [srclang, translatedTitle(localizedTitles, srclang, ch.title) || ch.title])),
+    },
+  })), null, 2);
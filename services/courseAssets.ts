@@ -0,0 +1,61 @@
+import { CourseAssets } from "../types";
+import { formatTimestamp } from "./transcriptParser";
+
+const OPTION_LETTERS = 'ABCDEFGH';
+
+const timestamp = (seconds: number): string => formatTimestamp(seconds * 1000);
+
+/**
+ * Markdown for pasting into an LMS page: title, description, chapter summaries, action items,
+ * then the quiz with an answer key.
+ */
+export const courseAssetsToMarkdown = (assets: CourseAssets): string => {
+  const sections = [
+    `# ${assets.title}`,
+    assets.description,
+    '## Chapters',
+    assets.chapterSummaries
+      .map(ch => `### ${timestamp(ch.start)} – ${ch.title}\n\n${ch.summary || ''}`.trim())
+      .join('\n\n'),
+  ];
+
+  if (assets.actionItems.length > 0) {
+    sections.push('## Action Items', assets.actionItems.map(item => `- [ ] ${item}`).join('\n'));
+  }
+
+  sections.push(
+    '## Quiz',
+    assets.quiz
+      .map((q, i) => [
+        `**${i + 1}. ${q.question}**`,
+        '',
+        ...q.options.map((option, j) => `- ${OPTION_LETTERS[j] ?? j + 1}. ${option}`),
+      ].join('\n'))
+      .join('\n\n'),
+    '## Answer Key',
+    assets.quiz
+      .map((q, i) => `${i + 1}. **${OPTION_LETTERS[q.answerIndex] ?? q.answerIndex + 1}** – ${q.explanation} (see ${timestamp(q.answerSeconds)})`)
+      .join('\n'),
+  );
+
+  return sections.join('\n\n') + '\n';
+};
+
+/**
+ * The assets as JSON for LMS import. Times are whole seconds; answers also carry the option text.
+ */
+export const courseAssetsToJson = (assets: CourseAssets): string =>
+  JSON.stringify({
+    title: assets.title,
+    description: assets.description,
+    chapters: assets.chapterSummaries.map(ch => ({ start: ch.start, end: ch.end, title: ch.title, summary: ch.summary || '' })),
+    actionItems: assets.actionItems,
+    quiz: assets.quiz.map(q => ({
+      question: q.question,
+      options: q.options,
+      answerIndex: q.answerIndex,
+      answer: q.options[q.answerIndex],
+      explanation: q.explanation,
+      answerSeconds: q.answerSeconds,
+    })),
+  }, null, 2);
@@ -0,0 +1,19 @@
+/**
+ * Saves text content as a UTF-8 file via a temporary object URL.
+ */
+export const downloadTextFile = (content: string, fileName: string): void => {
+  const blob = new Blob([content], { type: 'text/plain;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * "session.vtt" -> "session"
+ */
+export const baseFileName = (fileName: string): string => fileName.split('.')[0];
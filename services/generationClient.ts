@@ -0,0 +1,147 @@
+import { AiAttempt, AiErrorCode, AiSettings } from "../types";
+import { authHeaders, notifySessionExpired } from "./authService";
+
+export interface GenerateRequest {
+  model: string;                 // "<provider>:<model>" from a task's chain
+  systemInstruction: string;
+  contents: string;
+  config: {
+    temperature?: number;
+    maxOutputTokens?: number;
+    responseSchema?: object;     // Plain JSON Schema; implies a JSON response
+  };
+}
+
+/**
+ * A failed AI request or job. `attempts` is filled in by the execution policy (aiPolicy.ts)
+ * and lists every model try that led to this error.
+ */
+export class AiError extends Error {
+  code: AiErrorCode;
+  retryAfterSeconds: number | null;
+  attempts: AiAttempt[];
+
+  constructor(code: AiErrorCode, message: string, options: { retryAfterSeconds?: number | null; attempts?: AiAttempt[] } = {}) {
+    super(message);
+    this.name = 'AiError';
+    this.code = code;
+    this.retryAfterSeconds = options.retryAfterSeconds ?? null;
+    this.attempts = options.attempts ?? [];
+  }
+}
+
+// Used when an error response has no `code` (e.g. a platform error page)
+const codeForStatus = (status: number): AiErrorCode => {
+  if (status === 401) return 'auth';
+  if (status === 413) return 'input-too-large';
+  if (status === 429) return 'rate-limit';
+  if (status === 408 || status === 504) return 'timeout';
+  return status >= 500 ? 'server' : 'bad-request';
+};
+
+let settingsPromise: Promise<AiSettings> | null = null;
+
+/**
+ * Model chains and retry policy, loaded once from /api/generate.
+ */
+export const fetchAiSettings = (): Promise<AiSettings> => {
+  if (!settingsPromise) {
+    settingsPromise = fetch('/api/generate', { headers: authHeaders() })
+      .then(async response => {
+        if (response.status === 401) notifySessionExpired();
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok) throw new Error(data.error || `Could not load AI model settings (Status ${response.status})`);
+        return data as AiSettings;
+      })
+      .catch(error => {
+        settingsPromise = null; // Let the next call try again
+        throw error;
+      });
+  }
+  return settingsPromise;
+};
+
+/**
+ * Runs one generation through /api/generate (provider keys stay on the server) and reads the
+ * NDJSON stream it returns. `onText` receives the text accumulated so far after every chunk.
+ * Failures are thrown as AiError; an aborted `signal` surfaces as the fetch AbortError.
+ */
+export const streamGeneration = async (
+  request: GenerateRequest,
+  signal?: AbortSignal,
+  onText?: (text: string) => void
+): Promise<string> => {
+  let response: Response;
+  try {
+    response = await fetch('/api/generate', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...authHeaders() },
+      body: JSON.stringify(request),
+      signal
+    });
+  } catch (error: any) {
+    if (signal?.aborted) throw error;
+    throw new AiError('network', `Could not reach the server: ${error.message}`);
+  }
+
+  if (!response.ok || !response.body) {
+    if (response.status === 401) notifySessionExpired();
+    let data: any = {};
+    try {
+      data = await response.json();
+    } catch (e) {
+      // Non-JSON error body (e.g. a platform error page); fall back to the status
+    }
+    const retryAfter = data.retryAfterSeconds ?? (Number(response.headers.get('Retry-After')) || null);
+    throw new AiError(
+      data.code || codeForStatus(response.status),
+      data.error || `AI request failed (Status ${response.status})`,
+      { retryAfterSeconds: retryAfter }
+    );
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let done = false;
+
+  const handleLine = (line: string) => {
+    if (!line.trim()) return;
+    let event: any;
+    try {
+      event = JSON.parse(line);
+    } catch (e) {
+      throw new AiError('server', 'AI response stream was garbled.');
+    }
+    if (event.type === 'chunk') {
+      text += event.text;
+      onText?.(text);
+    } else if (event.type === 'error') {
+      throw new AiError(event.code || 'server', event.error);
+    } else if (event.type === 'done') {
+      done = true;
+    }
+  };
+
+  while (true) {
+    let result: ReadableStreamReadResult<Uint8Array>;
+    try {
+      result = await reader.read();
+    } catch (error: any) {
+      if (signal?.aborted) throw error;
+      throw new AiError('network', `Connection dropped while receiving the AI response: ${error.message}`);
+    }
+    if (result.done) break;
+    buffer += decoder.decode(result.value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffer);
+
+  if (!done) {
+    throw new AiError('server', "AI response was cut off before it finished.");
+  }
+  return text;
+};
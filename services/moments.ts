@@ -0,0 +1,93 @@
+import { BunnyMoment } from "../types";
+import { formatTimestamp } from "./transcriptParser";
+
+export interface MomentIssue {
+  row: number;               // 0-based index into the moment list
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface MomentValidationResult {
+  issues: MomentIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+// Longer labels are cut off on the player's timeline
+const MAX_LABEL_LENGTH = 60;
+
+/**
+ * "75" or "01:15" or "00:01:15" -> 75. Returns NaN when the value is not a time.
+ */
+const parseSeconds = (value: string): number => {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return parseInt(trimmed, 10);
+  const match = trimmed.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})$/);
+  if (!match) return NaN;
+  return Number(match[1] || 0) * 3600 + Number(match[2]) * 60 + Number(match[3]);
+};
+
+/**
+ * Parses one "timestamp,label" line, with the timestamp in seconds or HH:MM:SS.
+ * Returns null if the line is not a valid moment.
+ */
+const parseMomentLine = (line: string): BunnyMoment | null => {
+  const comma = line.indexOf(',');
+  if (comma === -1) return null;
+
+  const timestamp = parseSeconds(line.slice(0, comma));
+  const label = line.slice(comma + 1).trim();
+  if (isNaN(timestamp) || !label) return null;
+  return { timestamp, label };
+};
+
+/**
+ * Parses the moment editor text ("timestamp,label" per line). Invalid lines are skipped.
+ */
+export const parseMomentsCsv = (csvContent: string): BunnyMoment[] =>
+  csvContent
+    .split('\n')
+    .map(parseMomentLine)
+    .filter((moment): moment is BunnyMoment => moment !== null);
+
+/**
+ * Returns the 1-based line numbers of non-empty lines that could not be parsed.
+ */
+export const findInvalidMomentLines = (csvContent: string): number[] =>
+  csvContent
+    .split('\n')
+    .flatMap((line, i) => line.trim() !== '' && parseMomentLine(line) === null ? [i + 1] : []);
+
+/**
+ * Serializes moments for the editor, with readable HH:MM:SS timestamps.
+ */
+export const momentsToCsv = (moments: BunnyMoment[]): string =>
+  moments.map(m => `${formatTimestamp(m.timestamp * 1000)},${m.label}`).join('\n');
+
+/**
+ * Checks moments before they are deployed. Errors block the deploy; warnings are shown only.
+ */
+export const validateMoments = (moments: BunnyMoment[], durationSeconds: number | null): MomentValidationResult => {
+  const issues: MomentIssue[] = [];
+
+  moments.forEach((m, row) => {
+    if (durationSeconds !== null && m.timestamp > durationSeconds) {
+      issues.push({ row, severity: 'error', message: `${formatTimestamp(m.timestamp * 1000)} is after the end of the video (${formatTimestamp(durationSeconds * 1000)}).` });
+    }
+    if (moments.findIndex(other => other.timestamp === m.timestamp) !== row) {
+      issues.push({ row, severity: 'error', message: `Another moment is already at ${formatTimestamp(m.timestamp * 1000)}.` });
+    }
+    if (m.label.length > MAX_LABEL_LENGTH) {
+      issues.push({ row, severity: 'warning', message: `Label is ${m.label.length} characters; the player shows about ${MAX_LABEL_LENGTH}.` });
+    }
+    if (row > 0 && m.timestamp < moments[row - 1].timestamp) {
+      issues.push({ row, severity: 'warning', message: 'Out of order; moments are easier to review sorted by time.' });
+    }
+  });
+
+  return {
+    issues,
+    errorCount: issues.filter(issue => issue.severity === 'error').length,
+    warningCount: issues.filter(issue => issue.severity === 'warning').length,
+  };
+};
@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { repairSrt, SRT_LIMITS, validateSrt } from './srtValidator';
+
+const cue = (n: number, timing: string, ...lines: string[]) => [String(n), timing, ...lines].join('\n');
+const rulesOf = (srt: string) => validateSrt(srt).issues.map(issue => issue.rule);
+
+const CLEAN = [
+  cue(1, '00:00:01,000 --> 00:00:03,000', 'Welcome to the session.'),
+  cue(2, '00:00:03,500 --> 00:00:06,000', 'Today we cover chapters.'),
+].join('\n\n');
+
+// Three cues written without blank lines between them, as models sometimes return them
+const RUN_TOGETHER = [
+  '1',
+  '00:00:01,000 --> 00:00:02,000',
+  'First line.',
+  '2',
+  '00:00:02,500 --> 00:00:04,000',
+  'Second line.',
+  '00:00:04,500 --> 00:00:06,000',
+  'Third line.',
+].join('\n');
+
+describe('validateSrt', () => {
+  it('accepts clean SRT', () => {
+    const report = validateSrt(CLEAN);
+    expect(report.cueCount).toBe(2);
+    expect(report.issues).toEqual([]);
+  });
+
+  it('reads CRLF line endings and a byte order mark', () => {
+    expect(validateSrt('\uFEFF' + CLEAN.replace(/\n/g, '\r\n')).issues).toEqual([]);
+  });
+
+  it('reports numbering, timestamp format and order errors by cue', () => {
+    const report = validateSrt([
+      cue(1, '00:00:01,000 --> 00:00:02,000', 'One.'),
+      cue(5, '00:00:03.000 --> 00:00:04,000', 'Two.'),
+      cue(3, '00:00:06,000 --> 00:00:05,000', 'Three.'),
+    ].join('\n\n'));
+
+    expect(report.issues.map(({ cue, rule }) => [cue, rule])).toEqual([
+      [2, 'numbering'],
+      [2, 'timestamp-format'],
+      [3, 'timestamp-order'],
+    ]);
+    expect(report.errorCount).toBe(3);
+  });
+
+  it('flags overlaps and empty cues as errors', () => {
+    const srt = [
+      cue(1, '00:00:01,000 --> 00:00:03,000', 'One.'),
+      cue(2, '00:00:02,000 --> 00:00:04,000'),
+    ].join('\n\n');
+    expect(rulesOf(srt)).toEqual(['overlap', 'empty-cue']);
+  });
+
+  it('warns about long lines, too many lines and long cues', () => {
+    const report = validateSrt(cue(1, '00:00:00,000 --> 00:00:09,000', 'a'.repeat(SRT_LIMITS.maxLineChars + 1), 'b', 'c'));
+    expect(report.issues.map(issue => issue.rule).sort()).toEqual(['duration', 'line-count', 'line-length']);
+    expect(report.errorCount).toBe(0);
+    expect(report.warningCount).toBe(3);
+  });
+
+  it('splits cues that were run together instead of reading them as text', () => {
+    const report = validateSrt(RUN_TOGETHER);
+    expect(report.cueCount).toBe(3);
+    expect(report.issues.map(issue => issue.rule)).toEqual(['numbering']);
+  });
+
+  it('flags a timing line merged into cue text', () => {
+    const report = validateSrt(cue(1, '00:00:01,000 --> 00:00:03,000', 'Hello there 00:00:02,000 --> 00:00:03,000 again.'));
+    expect(report.issues).toEqual([expect.objectContaining({ cue: 1, rule: 'timing-in-text', severity: 'error' })]);
+  });
+});
+
+describe('repairSrt', () => {
+  it('leaves clean SRT valid and unchanged in content', () => {
+    const repaired = repairSrt(CLEAN);
+    expect(validateSrt(repaired).issues).toEqual([]);
+    expect(repaired).toContain('00:00:03,500 --> 00:00:06,000\nToday we cover chapters.');
+  });
+
+  it('renumbers, clamps overlaps and splits long cues', () => {
+    const repaired = repairSrt([
+      cue(7, '00:00:00,000 --> 00:00:03,000', 'One.'),
+      cue(9, '00:00:02,000 --> 00:00:12,000', 'A much longer cue that goes on for ten seconds and needs splitting.'),
+    ].join('\n\n'));
+
+    const report = validateSrt(repaired);
+    expect(report.issues).toEqual([]);
+    expect(report.cueCount).toBeGreaterThan(2);
+    expect(repaired.startsWith('1\n00:00:00,000 --> 00:00:02,000\nOne.')).toBe(true);
+  });
+
+  it('repairs run-together cues into separate valid cues', () => {
+    const repaired = repairSrt(RUN_TOGETHER);
+    expect(validateSrt(repaired)).toMatchObject({ cueCount: 3, issues: [] });
+    expect(repaired).toContain('3\n00:00:04,500 --> 00:00:06,000\nThird line.');
+  });
+
+  it('never drops text from blocks with unreadable timing', () => {
+    const repaired = repairSrt([
+      'Orphan intro.',
+      cue(1, '00:00:01,000 --> 00:00:02,000', 'First.'),
+      cue(2, '00:00:xx,000 --> 00:00:03,000', 'Lost?'),
+    ].join('\n\n'));
+
+    expect(validateSrt(repaired).issues).toEqual([]);
+    expect(repaired).toContain('Orphan intro. First. Lost?');
+  });
+
+  it('merges cues that start (almost) together', () => {
+    const repaired = repairSrt([
+      cue(1, '00:00:01,000 --> 00:00:02,000', 'Same'),
+      cue(2, '00:00:01,200 --> 00:00:02,500', 'moment.'),
+    ].join('\n\n'));
+
+    expect(repaired.trim()).toBe('1\n00:00:01,000 --> 00:00:02,500\nSame moment.');
+  });
+});
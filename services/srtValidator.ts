@@ -0,0 +1,302 @@
+import { parseTimestamp } from "./transcriptParser";
+import { formatSrtTimestamp, serializeSrt } from "./captionFormat";
+
+// The same limits CAPTIONS_SYSTEM_PROMPT asks the model to follow.
+export const SRT_LIMITS = {
+  maxLineChars: 80,
+  maxLines: 2,
+  maxCueMs: 4000,
+};
+
+export type SrtRule =
+  | 'numbering'
+  | 'timestamp-format'
+  | 'timestamp-order'
+  | 'overlap'
+  | 'empty-cue'
+  | 'line-length'
+  | 'line-count'
+  | 'duration'
+  | 'timing-in-text';
+
+export interface SrtIssue {
+  cue: number;              // 1-based position of the cue in the file
+  rule: SrtRule;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface SrtValidationReport {
+  cueCount: number;
+  issues: SrtIssue[];
+  errorCount: number;
+  warningCount: number;
+}
+
+// Strict SRT timing line: HH:MM:SS,mmm --> HH:MM:SS,mmm
+const STRICT_TIMING_PATTERN = /^(\d{2}:\d{2}:\d{2},\d{3}) --> (\d{2}:\d{2}:\d{2},\d{3})$/;
+// Any line that looks like a timing line, however loosely formatted ("0:05.5 --> 0:06")
+const TIMING_LIKE_PATTERN = /^\d[\d:.,]*\s+-->\s+\d[\d:.,]*/;
+// A timestamp followed by an arrow anywhere in a text line: cues that were run together
+const EMBEDDED_TIMING_PATTERN = /\d{1,2}:\d{2}(?::\d{2})?[,.]\d{1,3}\s*-->/;
+
+interface SrtBlock {
+  numberLine: string | null;
+  timingLine: string | null;
+  startMs: number | null;  // Parsed leniently (accepts "." separators, missing hours)
+  endMs: number | null;
+  lines: string[];
+}
+
+/**
+ * Splits the lines of one blank-line separated chunk at every timing line that cannot belong
+ * to the current block, so cues written without a blank line between them stay separate.
+ * A cue number right before such a timing line moves with it.
+ */
+const splitRunTogetherCues = (lines: string[]): string[][] => {
+  const groups: string[][] = [];
+  let current: string[] = [];
+
+  lines.forEach(line => {
+    const startsCue = TIMING_LIKE_PATTERN.test(line.trim())
+      && (current.some(l => TIMING_LIKE_PATTERN.test(l.trim())) || current.length >= 2);
+    if (startsCue) {
+      const numberLine = /^\d+$/.test(current[current.length - 1].trim()) ? current.pop()! : null;
+      if (current.length > 0) groups.push(current);
+      current = numberLine ? [numberLine] : [];
+    }
+    current.push(line);
+  });
+  if (current.length > 0) groups.push(current);
+
+  return groups;
+};
+
+/**
+ * Splits SRT text into blocks without throwing, so every problem can be reported.
+ * Blocks end at blank lines and before any timing line that starts the next cue.
+ */
+const readBlocks = (srt: string): SrtBlock[] =>
+  srt
+    .replace(/^\uFEFF/, '')
+    .replace(/\r\n?/g, '\n')
+    .split(/\n\s*\n/)
+    .map(chunk => chunk.split('\n').filter(line => line.trim() !== ''))
+    .filter(lines => lines.length > 0)
+    .flatMap(splitRunTogetherCues)
+    .map(lines => {
+      const timingIndex = lines.findIndex((line, i) => i < 2 && line.includes('-->'));
+      const hasNumber = timingIndex === 1 || (timingIndex === -1 && /^\d+$/.test(lines[0].trim()));
+      const timingLine = timingIndex >= 0 ? lines[timingIndex].trim() : null;
+      const [rawStart, rawEnd] = timingLine ? timingLine.split('-->').map(part => part.trim().split(/\s+/)[0]) : [];
+      const textStart = timingIndex >= 0 ? timingIndex + 1 : hasNumber ? 1 : 0;
+
+      return {
+        numberLine: hasNumber ? lines[0].trim() : null,
+        timingLine,
+        startMs: rawStart ? parseTimestamp(rawStart) : null,
+        endMs: rawEnd ? parseTimestamp(rawEnd) : null,
+        lines: lines.slice(textStart).map(l => l.trim())
+      };
+    });
+
+/**
+ * Checks cleaned SRT against the caption rules and reports every violation by cue number.
+ */
+export const validateSrt = (srt: string): SrtValidationReport => {
+  const blocks = readBlocks(srt);
+  const issues: SrtIssue[] = [];
+
+  blocks.forEach((block, i) => {
+    const cue = i + 1;
+    const add = (rule: SrtRule, severity: SrtIssue['severity'], message: string) =>
+      issues.push({ cue, rule, severity, message });
+
+    if (block.numberLine !== String(cue)) {
+      add('numbering', 'error', block.numberLine
+        ? `Numbered "${block.numberLine}", expected ${cue}.`
+        : `Missing cue number (expected ${cue}).`);
+    }
+
+    if (!block.timingLine || !STRICT_TIMING_PATTERN.test(block.timingLine)) {
+      add('timestamp-format', 'error', block.timingLine
+        ? `Timing line "${block.timingLine}" is not HH:MM:SS,mmm --> HH:MM:SS,mmm.`
+        : `Missing timing line.`);
+    }
+
+    if (block.startMs !== null && block.endMs !== null) {
+      if (block.endMs <= block.startMs) {
+        add('timestamp-order', 'error', `Ends at or before its start time.`);
+      } else if (block.endMs - block.startMs > SRT_LIMITS.maxCueMs) {
+        add('duration', 'warning', `Lasts ${((block.endMs - block.startMs) / 1000).toFixed(1)}s (max ${SRT_LIMITS.maxCueMs / 1000}s).`);
+      }
+    }
+
+    const prev = blocks[i - 1];
+    if (prev && prev.endMs !== null && block.startMs !== null && block.startMs < prev.endMs) {
+      add('overlap', 'error', `Starts at ${formatSrtTimestamp(block.startMs)}, before cue ${cue - 1} ends (${formatSrtTimestamp(prev.endMs)}).`);
+    }
+
+    if (block.lines.length === 0) {
+      add('empty-cue', 'error', `Has no text.`);
+    }
+
+    if (block.lines.length > SRT_LIMITS.maxLines) {
+      add('line-count', 'warning', `Has ${block.lines.length} lines (max ${SRT_LIMITS.maxLines}).`);
+    }
+
+    block.lines.forEach((line, lineIndex) => {
+      if (EMBEDDED_TIMING_PATTERN.test(line)) {
+        add('timing-in-text', 'error', `Line ${lineIndex + 1} contains a timing line; two cues were merged.`);
+      }
+      if (line.length > SRT_LIMITS.maxLineChars) {
+        add('line-length', 'warning', `Line ${lineIndex + 1} is ${line.length} characters (max ${SRT_LIMITS.maxLineChars}).`);
+      }
+    });
+  });
+
+  return {
+    cueCount: blocks.length,
+    issues,
+    errorCount: issues.filter(issue => issue.severity === 'error').length,
+    warningCount: issues.filter(issue => issue.severity === 'warning').length
+  };
+};
+
+/**
+ * Greedy word wrap. A single word longer than the limit gets its own line.
+ */
+const wrapWords = (words: string[], maxChars: number): string[] => {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of words) {
+    if (current && (current + ' ' + word).length > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+};
+
+/**
+ * Splits words into `parts` groups of roughly equal character length.
+ */
+const splitWordsEvenly = (words: string[], parts: number): string[][] => {
+  const totalChars = words.join(' ').length;
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let consumed = 0;
+
+  words.forEach((word, i) => {
+    current.push(word);
+    consumed += word.length + 1;
+    const remainingWords = words.length - i - 1;
+    const remainingGroups = parts - groups.length - 1;
+    if (remainingGroups > 0 && remainingWords >= remainingGroups && consumed >= (totalChars * (groups.length + 1)) / parts) {
+      groups.push(current);
+      current = [];
+    }
+  });
+  if (current.length > 0) groups.push(current);
+
+  return groups;
+};
+
+interface RepairCue {
+  startMs: number;
+  endMs: number;
+  text: string;
+}
+
+/**
+ * Splits one cue into pieces that respect the duration and line limits,
+ * dividing time in proportion to each piece's text length.
+ */
+const splitCue = (cue: RepairCue): RepairCue[] => {
+  const words = cue.text.split(/\s+/).filter(Boolean);
+  const duration = cue.endMs - cue.startMs;
+  let parts = Math.max(1, Math.ceil(duration / SRT_LIMITS.maxCueMs));
+
+  let groups = splitWordsEvenly(words, Math.min(parts, words.length));
+  while (parts < words.length && groups.some(group => wrapWords(group, SRT_LIMITS.maxLineChars).length > SRT_LIMITS.maxLines)) {
+    parts++;
+    groups = splitWordsEvenly(words, parts);
+  }
+
+  const totalChars = groups.reduce((sum, group) => sum + group.join(' ').length, 0) || 1;
+  let cursor = cue.startMs;
+
+  return groups.map((group, i) => {
+    const text = group.join(' ');
+    const isLast = i === groups.length - 1;
+    const end = isLast ? cue.endMs : cursor + Math.round((duration * text.length) / totalChars);
+    const piece = {
+      startMs: cursor,
+      // A single word can't be split further; trailing silence is cut instead
+      endMs: Math.min(end, cursor + SRT_LIMITS.maxCueMs),
+      text: wrapWords(group, SRT_LIMITS.maxLineChars).join('\n')
+    };
+    cursor = end;
+    return piece;
+  });
+};
+
+// Cues starting closer together than this are merged; clamping them would leave a cue too short to read
+const MIN_REPAIRED_CUE_MS = 500;
+
+/**
+ * Rewrites SRT so it passes validateSrt: renumbers, clamps overlaps,
+ * re-wraps lines and splits cues that are too long. Text is never dropped:
+ * a block with an unreadable timing line is merged into the cue before it (or the first cue,
+ * when it comes first), and cues starting at (almost) the same time are merged into one.
+ */
+export const repairSrt = (srt: string): string => {
+  const timed: RepairCue[] = [];
+  let leadingText = '';
+
+  for (const block of readBlocks(srt)) {
+    const text = block.lines.join(' ').replace(/\s+/g, ' ').trim();
+    if (block.startMs === null || block.endMs === null) {
+      if (!text) continue;
+      if (timed.length > 0) {
+        timed[timed.length - 1].text += ` ${text}`;
+      } else {
+        leadingText = `${leadingText} ${text}`.trim();
+      }
+      continue;
+    }
+    if (!text) continue;
+    timed.push({ startMs: block.startMs, endMs: block.endMs, text });
+  }
+  if (leadingText && timed.length > 0) {
+    timed[0].text = `${leadingText} ${timed[0].text}`;
+  }
+
+  // Fix inverted cues, then merge cues that start (almost) together
+  const cues: RepairCue[] = [];
+  timed
+    .map(cue => (cue.endMs <= cue.startMs ? { ...cue, endMs: cue.startMs + SRT_LIMITS.maxCueMs } : cue))
+    .sort((a, b) => a.startMs - b.startMs)
+    .forEach(cue => {
+      const prev = cues[cues.length - 1];
+      if (prev && cue.startMs - prev.startMs < MIN_REPAIRED_CUE_MS) {
+        prev.text += ` ${cue.text}`;
+        prev.endMs = Math.max(prev.endMs, cue.endMs);
+      } else {
+        cues.push({ ...cue });
+      }
+    });
+
+  // Clamp overlaps against the next cue; after merging, every cue keeps at least MIN_REPAIRED_CUE_MS
+  cues.forEach((cue, i) => {
+    const next = cues[i + 1];
+    if (next && cue.endMs > next.startMs) {
+      cue.endMs = next.startMs;
+    }
+  });
+
+  return serializeSrt(cues.flatMap(splitCue));
+};
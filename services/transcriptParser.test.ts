@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { detectTranscriptFormat, formatTimestamp, parseTimestamp, parseTranscript, TranscriptParseError } from './transcriptParser';
+
+describe('parseTimestamp', () => {
+  it('reads hours, minutes, seconds and either millisecond separator', () => {
+    expect(parseTimestamp('01:02:03,456')).toBe(3723456);
+    expect(parseTimestamp('01:02:03.5')).toBe(3723500);
+    expect(parseTimestamp('02:03')).toBe(123000);
+  });
+
+  it('rejects malformed values', () => {
+    expect(parseTimestamp('00:61:00')).toBeNull();
+    expect(parseTimestamp('abc')).toBeNull();
+  });
+});
+
+describe('formatTimestamp', () => {
+  it('formats whole seconds as HH:MM:SS', () => {
+    expect(formatTimestamp(3723999)).toBe('01:02:03');
+    expect(formatTimestamp(-5)).toBe('00:00:00');
+  });
+});
+
+describe('detectTranscriptFormat', () => {
+  it('trusts the extension, then sniffs .txt content', () => {
+    expect(detectTranscriptFormat('a.vtt', '')).toBe('vtt');
+    expect(detectTranscriptFormat('a.srt', '')).toBe('srt');
+    expect(detectTranscriptFormat('a.txt', 'WEBVTT\n\n')).toBe('vtt');
+    expect(detectTranscriptFormat('a.txt', '1\n00:00:01,000 --> 00:00:02,000\nHi')).toBe('srt');
+    expect(detectTranscriptFormat('a.txt', '[Ana] 00:00:01\nHi')).toBe('zoom-txt');
+  });
+});
+
+describe('parseTranscript', () => {
+  it('parses VTT with voice tags and speaker prefixes', () => {
+    const transcript = parseTranscript([
+      'WEBVTT',
+      '',
+      '00:00:01.000 --> 00:00:03.000',
+      '<v Ana Souza>Hello <i>everyone</i>.',
+      '',
+      '00:00:04.000 --> 00:00:06.500 align:start',
+      'Speaker 2: Thanks, Ana.',
+    ].join('\n'), 'talk.vtt');
+
+    expect(transcript.format).toBe('vtt');
+    expect(transcript.speakers).toEqual(['Ana Souza', 'Speaker 2']);
+    expect(transcript.durationMs).toBe(6500);
+    expect(transcript.cues.map(cue => cue.text)).toEqual(['Hello everyone.', 'Thanks, Ana.']);
+  });
+
+  it('keeps sentence prefixes as text', () => {
+    const transcript = parseTranscript('1\n00:00:01,000 --> 00:00:02,000\nSo the answer is: yes\n', 'a.srt');
+    expect(transcript.cues[0]).toMatchObject({ speaker: null, text: 'So the answer is: yes' });
+  });
+
+  it('leaves speakers alone when detection is off', () => {
+    const transcript = parseTranscript('1\n00:00:01,000 --> 00:00:02,000\nStep One: open the file\n', 'a.srt', { detectSpeakers: false });
+    expect(transcript.cues[0]).toMatchObject({ speaker: null, text: 'Step One: open the file' });
+  });
+
+  it('derives Zoom TXT end times from the next cue', () => {
+    const transcript = parseTranscript('[Ana] 00:00:01\nHello.\n\n[Ben] 00:00:05\nHi Ana.\n', 'zoom.txt');
+    expect(transcript.cues.map(({ startMs, endMs, speaker }) => [startMs, endMs, speaker])).toEqual([
+      [1000, 5000, 'Ana'],
+      [5000, 8000, 'Ben'],
+    ]);
+  });
+
+  it('throws TranscriptParseError with the line of a broken timing line', () => {
+    const content = '1\n00:00:01,000 --> 00:00:02,000\nOne\n\n2\n00:00:0x,000 --> 00:00:03,000\nTwo\n';
+    expect(() => parseTranscript(content, 'a.srt')).toThrow(TranscriptParseError);
+    try {
+      parseTranscript(content, 'a.srt');
+    } catch (error) {
+      expect((error as TranscriptParseError).line).toBe(6);
+    }
+  });
+
+  it('rejects files without cues', () => {
+    expect(() => parseTranscript('WEBVTT\n\n', 'a.vtt')).toThrow(/No spoken cues/);
+  });
+});
@@ -0,0 +1,345 @@
+import { ParsedTranscript, TranscriptCue, TranscriptFormat } from "../types";
+
+/**
+ * Thrown when a transcript block cannot be parsed.
+ * `line` is the 1-based line number in the uploaded file where the problem starts.
+ */
+export class TranscriptParseError extends Error {
+  line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = 'TranscriptParseError';
+    this.line = line;
+  }
+}
+
+// Zoom TXT transcripts only carry start times, so the last cue gets a nominal length.
+const LAST_CUE_FALLBACK_MS = 3000;
+
+// (HH:)MM:SS(.mmm | ,mmm)
+const TIMESTAMP_PATTERN = /^(?:(\d{1,3}):)?(\d{1,2}):(\d{2})(?:[.,](\d{1,3}))?$/;
+const TIMING_LINE_PATTERN = /^(\S+)\s+-->\s+(\S+)(?:\s+.*)?$/;
+
+// "John Doe: text" — the convention Zoom uses for speaker names inside cue text
+const SPEAKER_PREFIX_PATTERN = /^([^:\n]{1,40}?):\s+([\s\S]*)$/;
+// One word of a speaker name: "Jane", "O'Neil", "Dr.", "2", "SPEAKER_01"
+const NAME_WORD_PATTERN = /^(?:\p{Lu}[\p{L}'’.-]*|[\p{Lu}\d_]+)$/u;
+// Lowercase words that still belong to a name ("Ana de Souza", "Jan van der Berg")
+const NAME_PARTICLES = ['de', 'da', 'del', 'di', 'van', 'der', 'von', 'la', 'le', 'bin', 'al'];
+// Capitalised words that start a sentence or a label rather than a name ("Note: ...", "So: ...")
+const NON_NAME_WORDS = ['So', 'And', 'But', 'Now', 'Well', 'Okay', 'Ok', 'Yes', 'No', 'The', 'This', 'That', 'Here', 'Note', 'Remember', 'Example', 'Step', 'Answer', 'Important', 'Tip', 'Warning'];
+// <v John Doe>text</v> — WebVTT voice spans
+const VOICE_TAG_PATTERN = /^<v(?:\.[\w.-]+)?\s+([^>]+)>/;
+
+// Zoom TXT, style A: "[John Doe] 00:12:34" header followed by text lines
+const ZOOM_HEADER_PATTERN = /^\[([^\]]+)\]\s+(\d{1,3}:\d{2}:\d{2}(?:[.,]\d{1,3})?)\s*$/;
+// Zoom TXT, style B: "00:12:34 John Doe: text" or "[00:12:34] John Doe: text"
+const ZOOM_INLINE_PATTERN = /^\[?(\d{1,3}:\d{2}:\d{2}(?:[.,]\d{1,3})?)\]?\s+(.+)$/;
+
+/**
+ * Converts a transcript timestamp (HH:MM:SS.mmm, MM:SS.mmm or HH:MM:SS,mmm) to milliseconds.
+ * Returns null if the value is not a valid timestamp.
+ */
+export const parseTimestamp = (value: string): number | null => {
+  const match = value.trim().match(TIMESTAMP_PATTERN);
+  if (!match) return null;
+
+  const hours = match[1] ? parseInt(match[1], 10) : 0;
+  const minutes = parseInt(match[2], 10);
+  const seconds = parseInt(match[3], 10);
+  const millis = match[4] ? parseInt(match[4].padEnd(3, '0'), 10) : 0;
+
+  if (minutes > 59 || seconds > 59) return null;
+
+  return ((hours * 60 + minutes) * 60 + seconds) * 1000 + millis;
+};
+
+/**
+ * Formats milliseconds as HH:MM:SS (no milliseconds), the format used in chapter lists.
+ */
+export const formatTimestamp = (ms: number): string => {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000));
+  const h = Math.floor(totalSeconds / 3600);
+  const m = Math.floor((totalSeconds % 3600) / 60);
+  const s = totalSeconds % 60;
+  return [h, m, s].map(n => String(n).padStart(2, '0')).join(':');
+};
+
+/**
+ * Removes inline markup (<i>, <b>, <c.color>, {\an8}) and collapses whitespace.
+ * Line breaks inside a cue are kept (one caption line per text line).
+ */
+const stripMarkup = (text: string): string =>
+  text
+    .replace(/<[^>]+>/g, '')
+    .replace(/\{\\[^}]*\}/g, '')
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+
+export interface ParseOptions {
+  // Split "Name: text" prefixes into `speaker`. Turn off for already-cleaned captions,
+  // where a leading "Step one: ..." is content rather than a speaker.
+  detectSpeakers?: boolean;
+}
+
+/**
+ * Whether a "prefix: text" prefix reads like a speaker name ("Dr. Jane Doe", "Speaker 2")
+ * rather than the start of a sentence ("So the answer is: yes"): at most four capitalised words.
+ */
+const looksLikeSpeakerName = (prefix: string): boolean => {
+  const words = prefix.trim().split(/\s+/);
+  return words.length <= 4
+    && !NON_NAME_WORDS.includes(words[0])
+    && NAME_WORD_PATTERN.test(words[0])
+    && words.every(word => NAME_WORD_PATTERN.test(word) || NAME_PARTICLES.includes(word));
+};
+
+/**
+ * Zoom's inline lines always put the speaker first, so any short prefix is accepted there.
+ */
+const looksLikeZoomSpeaker = (prefix: string): boolean =>
+  !/\d{2}:\d{2}/.test(prefix) && prefix.split(/\s+/).length <= 5;
+
+/**
+ * Pulls a speaker name off the front of the cue text, if present.
+ */
+const extractSpeaker = (
+  rawText: string,
+  detectSpeakers: boolean,
+  isSpeaker: (prefix: string) => boolean = looksLikeSpeakerName
+): { speaker: string | null; text: string } => {
+  if (!detectSpeakers) {
+    return { speaker: null, text: stripMarkup(rawText) };
+  }
+
+  const voice = rawText.match(VOICE_TAG_PATTERN);
+  if (voice) {
+    return { speaker: voice[1].trim(), text: stripMarkup(rawText) };
+  }
+
+  const text = stripMarkup(rawText);
+  const prefixed = text.match(SPEAKER_PREFIX_PATTERN);
+  if (prefixed && isSpeaker(prefixed[1])) {
+    return { speaker: prefixed[1].trim(), text: prefixed[2].trim() };
+  }
+
+  return { speaker: null, text };
+};
+
+export interface RawBlock {
+  lines: string[];
+  startLine: number; // 1-based line number of the first line in the block
+}
+
+/**
+ * Strips a UTF-8 BOM and normalises Windows/Mac line endings.
+ */
+const normalizeLines = (content: string): string[] =>
+  content.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n').split('\n');
+
+/**
+ * Splits file content into blank-line separated blocks, remembering where each block starts.
+ */
+export const splitBlocks = (content: string): RawBlock[] => {
+  const lines = normalizeLines(content);
+  const blocks: RawBlock[] = [];
+  let current: RawBlock | null = null;
+
+  lines.forEach((line, i) => {
+    if (line.trim() === '') {
+      if (current) blocks.push(current);
+      current = null;
+      return;
+    }
+    if (!current) current = { lines: [], startLine: i + 1 };
+    current.lines.push(line);
+  });
+  if (current) blocks.push(current);
+
+  return blocks;
+};
+
+/**
+ * Parses a "start --> end" timing line into milliseconds.
+ */
+const parseTimingLine = (line: string, lineNumber: number): { startMs: number; endMs: number } => {
+  const match = line.trim().match(TIMING_LINE_PATTERN);
+  if (!match) {
+    throw new TranscriptParseError(`Expected a timing line like "00:00:01.000 --> 00:00:04.000" but found "${line.trim()}".`, lineNumber);
+  }
+
+  const startMs = parseTimestamp(match[1]);
+  const endMs = parseTimestamp(match[2]);
+
+  if (startMs === null) {
+    throw new TranscriptParseError(`Invalid start timestamp "${match[1]}".`, lineNumber);
+  }
+  if (endMs === null) {
+    throw new TranscriptParseError(`Invalid end timestamp "${match[2]}".`, lineNumber);
+  }
+  if (endMs < startMs) {
+    throw new TranscriptParseError(`Cue ends (${match[2]}) before it starts (${match[1]}).`, lineNumber);
+  }
+
+  return { startMs, endMs };
+};
+
+/**
+ * Builds cues from "timing line + text lines" blocks (shared by SRT and VTT).
+ * `timingLineIndex` is where the timing line sits inside the block.
+ */
+const buildTimedCue = (block: RawBlock, timingLineIndex: number, index: number, options: Required<ParseOptions>): TranscriptCue => {
+  const lineNumber = block.startLine + timingLineIndex;
+  const { startMs, endMs } = parseTimingLine(block.lines[timingLineIndex], lineNumber);
+  const body = block.lines.slice(timingLineIndex + 1).join('\n');
+
+  if (!body.trim()) {
+    throw new TranscriptParseError(`Cue has a timestamp but no text.`, lineNumber);
+  }
+
+  const { speaker, text } = extractSpeaker(body, options.detectSpeakers);
+  return { index, startMs, endMs, speaker, text };
+};
+
+const parseSrt = (content: string, options: Required<ParseOptions>): TranscriptCue[] => {
+  const cues: TranscriptCue[] = [];
+
+  for (const block of splitBlocks(content)) {
+    // The numeric counter is optional in practice; find the timing line in the first two lines
+    const timingLineIndex = block.lines.findIndex((line, i) => i < 2 && line.includes('-->'));
+    if (timingLineIndex === -1) {
+      throw new TranscriptParseError(`SRT block is missing its "start --> end" timing line.`, block.startLine);
+    }
+    if (timingLineIndex === 1 && !/^\d+$/.test(block.lines[0].trim())) {
+      throw new TranscriptParseError(`Expected a cue number but found "${block.lines[0].trim()}".`, block.startLine);
+    }
+    cues.push(buildTimedCue(block, timingLineIndex, cues.length + 1, options));
+  }
+
+  return cues;
+};
+
+const parseVtt = (content: string, options: Required<ParseOptions>): TranscriptCue[] => {
+  const blocks = splitBlocks(content);
+  const cues: TranscriptCue[] = [];
+
+  if (blocks.length === 0 || !blocks[0].lines[0].startsWith('WEBVTT')) {
+    throw new TranscriptParseError(`WebVTT files must start with "WEBVTT".`, 1);
+  }
+
+  for (const block of blocks.slice(1)) {
+    const first = block.lines[0].trim();
+    // Non-cue blocks carry no spoken text
+    if (first.startsWith('NOTE') || first === 'STYLE' || first === 'REGION') continue;
+
+    // Optional cue identifier before the timing line
+    const timingLineIndex = block.lines.findIndex((line, i) => i < 2 && line.includes('-->'));
+    if (timingLineIndex === -1) {
+      throw new TranscriptParseError(`VTT cue is missing its "start --> end" timing line.`, block.startLine);
+    }
+    cues.push(buildTimedCue(block, timingLineIndex, cues.length + 1, options));
+  }
+
+  return cues;
+};
+
+const parseZoomTxt = (content: string, options: Required<ParseOptions>): TranscriptCue[] => {
+  const lines = normalizeLines(content);
+  const entries: { startMs: number; speaker: string | null; textLines: string[]; line: number }[] = [];
+
+  lines.forEach((rawLine, i) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const header = line.match(ZOOM_HEADER_PATTERN);
+    if (header) {
+      entries.push({ startMs: parseTimestamp(header[2])!, speaker: options.detectSpeakers ? header[1].trim() : null, textLines: [], line: i + 1 });
+      return;
+    }
+
+    const inline = line.match(ZOOM_INLINE_PATTERN);
+    if (inline && parseTimestamp(inline[1]) !== null) {
+      const { speaker, text } = extractSpeaker(inline[2], options.detectSpeakers, looksLikeZoomSpeaker);
+      entries.push({ startMs: parseTimestamp(inline[1])!, speaker, textLines: [text], line: i + 1 });
+      return;
+    }
+
+    if (entries.length === 0) {
+      throw new TranscriptParseError(`Expected a Zoom entry like "[Speaker] 00:00:05" or "00:00:05 Speaker: text" but found "${line}".`, i + 1);
+    }
+    // Continuation of the previous entry's text
+    entries[entries.length - 1].textLines.push(line);
+  });
+
+  return entries.map((entry, i) => {
+    const text = stripMarkup(entry.textLines.join(' '));
+    if (!text) {
+      throw new TranscriptParseError(`Zoom entry has a timestamp but no text.`, entry.line);
+    }
+
+    const next = entries[i + 1];
+    if (next && next.startMs < entry.startMs) {
+      throw new TranscriptParseError(`Timestamp goes backwards (${formatTimestamp(next.startMs)} after ${formatTimestamp(entry.startMs)}).`, next.line);
+    }
+
+    return {
+      index: i + 1,
+      startMs: entry.startMs,
+      endMs: next ? next.startMs : entry.startMs + LAST_CUE_FALLBACK_MS,
+      speaker: entry.speaker,
+      text
+    };
+  });
+};
+
+/**
+ * Works out the transcript type from the file name, sniffing the content if the extension is ambiguous.
+ */
+export const detectTranscriptFormat = (fileName: string, content: string): TranscriptFormat => {
+  const lower = fileName.toLowerCase();
+  if (lower.endsWith('.vtt')) return 'vtt';
+  if (lower.endsWith('.srt')) return 'srt';
+
+  // Some Zoom exports are VTT/SRT content saved as .txt
+  const trimmed = content.replace(/^\uFEFF/, '').trimStart();
+  if (trimmed.startsWith('WEBVTT')) return 'vtt';
+  if (/^\d+\s*\r?\n\s*[\d:.,]+\s+-->/.test(trimmed)) return 'srt';
+
+  return 'zoom-txt';
+};
+
+/**
+ * Parses a .vtt, .srt or Zoom .txt transcript into a structured cue model.
+ * Throws TranscriptParseError (with the offending line number) on malformed blocks.
+ */
+export const parseTranscript = (content: string, fileName: string, options: ParseOptions = {}): ParsedTranscript => {
+  const format = detectTranscriptFormat(fileName, content);
+  const resolved: Required<ParseOptions> = { detectSpeakers: options.detectSpeakers ?? true };
+
+  const cues = format === 'vtt'
+    ? parseVtt(content, resolved)
+    : format === 'srt'
+      ? parseSrt(content, resolved)
+      : parseZoomTxt(content, resolved);
+
+  if (cues.length === 0) {
+    throw new TranscriptParseError(`No spoken cues found in this ${format.toUpperCase()} file.`, 1);
+  }
+
+  const speakers: string[] = [];
+  for (const cue of cues) {
+    if (cue.speaker && !speakers.includes(cue.speaker)) {
+      speakers.push(cue.speaker);
+    }
+  }
+
+  return {
+    format,
+    cues,
+    durationMs: cues.reduce((max, cue) => Math.max(max, cue.endMs), 0),
+    speakers
+  };
+};
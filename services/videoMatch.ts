@@ -0,0 +1,98 @@
+import { BunnyVideoSummary } from "../types";
+
+// Words that show up in transcript file names but say nothing about which video it is.
+const NOISE_WORDS = new Set([
+  'the', 'and', 'a', 'an', 'of', 'to', 'in', 'on', 'for', 'with',
+  'transcript', 'transcription', 'captions', 'caption', 'subtitles', 'cc', 'recording', 'zoom', 'gmt',
+  'audio', 'video', 'final', 'copy', 'edited', 'vtt', 'srt', 'txt', 'mp4'
+]);
+
+// Suggestions scoring below this are not shown
+const MIN_MATCH_SCORE = 0.3;
+const MAX_SUGGESTIONS = 5;
+
+// How much the title and the date contribute to the score (they sum to 1)
+const TITLE_WEIGHT = 0.75;
+const DATE_WEIGHT = 0.25;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface VideoMatch {
+  video: BunnyVideoSummary;
+  score: number;      // 0-1
+  reasons: string[];  // Human-readable, e.g. 'Title shares "module", "pricing"'
+}
+
+/**
+ * Lowercase words of a title or file name. Years, times and dates (even glued to text, like
+ * Zoom's "GMT20240115") are dropped since they are matched separately; short numbers are kept
+ * because "Module 3" vs "Module 4" matters.
+ */
+export const tokenize = (text: string): string[] =>
+  text
+    .replace(/\.(vtt|srt|txt)$/i, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word && !NOISE_WORDS.has(word) && !/\d{4,}/.test(word))
+    .filter(word => (/^\d+$/.test(word) ? word.length <= 3 : word.length >= 2));
+
+/**
+ * Finds a calendar date in a file name: "2024-01-15", "2024_01_15" or "20240115"
+ * (the form Zoom uses, e.g. "GMT20240115-170000_Recording"). Returns epoch ms (UTC midnight) or null.
+ */
+export const extractDateFromFileName = (fileName: string): number | null => {
+  const match = fileName.match(/(?:^|\D)(20\d{2})[-_.]?(\d{2})[-_.]?(\d{2})(?:\D|$)/);
+  if (!match) return null;
+
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+  return Date.UTC(year, month - 1, day);
+};
+
+// Two words match when equal, or when one is a plural/prefix of the other ("lesson" / "lessons")
+const wordsMatch = (a: string, b: string): boolean =>
+  a === b || (a.length >= 4 && b.length >= 4 && (a.startsWith(b) || b.startsWith(a)));
+
+/**
+ * Ranks library videos by how likely they are the target for a transcript, comparing the
+ * file name's words with each video title and the recording date with the upload date.
+ * `fileDate` is used when the file name contains no date (e.g. the file's last-modified time).
+ */
+export const suggestVideoMatches = (
+  fileName: string,
+  videos: BunnyVideoSummary[],
+  fileDate: number | null = null
+): VideoMatch[] => {
+  const fileWords = [...new Set(tokenize(fileName))];
+  const recordedAt = extractDateFromFileName(fileName) ?? fileDate;
+
+  const matches = videos.map((video): VideoMatch => {
+    const reasons: string[] = [];
+    const titleWords = tokenize(video.title);
+
+    const shared = fileWords.filter(word => titleWords.some(titleWord => wordsMatch(word, titleWord)));
+    const titleScore = fileWords.length > 0 ? shared.length / fileWords.length : 0;
+    if (shared.length > 0) {
+      reasons.push(`Title shares ${shared.map(word => `"${word}"`).join(', ')}`);
+    }
+
+    let dateScore = 0;
+    if (recordedAt !== null && video.dateUploaded) {
+      const days = Math.abs(new Date(video.dateUploaded).getTime() - recordedAt) / DAY_MS;
+      if (days <= 1.5) {
+        dateScore = 1;
+        reasons.push('Uploaded the same day');
+      } else if (days <= 7) {
+        dateScore = 0.5;
+        reasons.push(`Uploaded ${Math.round(days)} days apart`);
+      }
+    }
+
+    return { video, score: TITLE_WEIGHT * titleScore + DATE_WEIGHT * dateScore, reasons };
+  });
+
+  return matches
+    .filter(match => match.score >= MIN_MATCH_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_SUGGESTIONS);
+};
@@ -0,0 +1,30 @@
+import { BunnyMetaTag, BunnyMoment } from "../types";
+
+// Meta tag the Bunny.net player and embeds use as the video description
+export const DESCRIPTION_TAG = 'description';
+
+/**
+ * The description stored in the video's meta tags, or '' when there is none.
+ */
+export const descriptionOf = (metaTags: BunnyMetaTag[]): string =>
+  metaTags.find(tag => tag.property === DESCRIPTION_TAG)?.value ?? '';
+
+/**
+ * The meta tags with the description replaced (or added). Other tags are kept as they are,
+ * since Bunny.net replaces the whole list on update.
+ */
+export const withDescription = (metaTags: BunnyMetaTag[], description: string): BunnyMetaTag[] => [
+  ...metaTags.filter(tag => tag.property !== DESCRIPTION_TAG),
+  { property: DESCRIPTION_TAG, value: description },
+];
+
+/**
+ * Whether two moment lists hold the same labels at the same times, ignoring order.
+ */
+export const sameMoments = (a: BunnyMoment[], b: BunnyMoment[]): boolean => {
+  const key = (moments: BunnyMoment[]) => moments
+    .map(m => `${Math.round(m.timestamp)}|${m.label.trim()}`)
+    .sort()
+    .join('\n');
+  return key(a) === key(b);
+};
@@ -2,32 +2,201 @@ export enum AppState {
   IDLE = 'IDLE',
   PROCESSING_CHAPTERS = 'PROCESSING_CHAPTERS',
   PROCESSING_CAPTIONS = 'PROCESSING_CAPTIONS',
+  PROCESSING_ASSETS = 'PROCESSING_ASSETS',
+  PROCESSING_MOMENTS = 'PROCESSING_MOMENTS',
   COMPLETED = 'COMPLETED',
   ERROR = 'ERROR',
 }
 
+// Which chapter title languages a library keeps, and which one Bunny.net shows
+export interface ChapterTitleConfig {
+  languages: CaptionLanguage[];  // First = the language chapters are generated in
+  bunnyLanguage: string;         // srclang pushed to Bunny.net; the others are exported for the LMS
+}
+
+// Translated chapter titles: srclang -> source title (trimmed) -> translated title.
+// Keyed by title, not position, so translations stay with their chapter when chapters are added, removed or split.
+export type LocalizedTitles = Record<string, Record<string, string>>;
+
 export interface ChapterResult {
-  humanReadable: string; // The "Part 1" output
-  csvContent: string;    // The "Part 2" output
+  humanReadable: string;   // "HH:MM:SS – Title" list, built locally from `chapters`
+  csvContent: string;      // "start,end,title" lines, built locally from `chapters`
+  chapters: BunnyChapter[];
+  localizedTitles: LocalizedTitles; // Other title languages of the library; empty when there are none
 }
 
 export interface CaptionResult {
   srtContent: string;
 }
 
+// One multiple-choice question; `answerSeconds` is where the video answers it
+export interface QuizQuestion {
+  question: string;
+  options: string[];
+  answerIndex: number;     // 0-based index into `options`
+  explanation: string;
+  answerSeconds: number;
+}
+
+// LMS material generated from a transcript ("Course Assets" mode)
+export interface CourseAssets {
+  title: string;                      // Suggested session title, e.g. for the Bunny.net video
+  description: string;                // Session description, one or two paragraphs
+  chapterSummaries: BunnyChapter[];   // Each with a summary; follows the generated chapters when there are any
+  actionItems: string[];              // Tasks the session asks learners to do
+  quiz: QuizQuestion[];
+}
+
+// Cleaned captions translated cue by cue: same cue count and timings, text in another language
+export interface TranslatedCaptions {
+  srclang: string;
+  label: string;
+  srtContent: string;
+}
+
+export interface ChunkProgress {
+  completed: number; // Chunks finished so far
+  total: number;
+}
+
+// AI jobs with their own model chain in config/ai.json
+export type AiTask = 'chapters' | 'captions' | 'translation' | 'assets' | 'moments';
+
+// "<provider>:<model>" references per task, in fallback order
+export type ModelChains = Record<AiTask, string[]>;
+
+// How the client retries one model before falling back to the next (config/ai.json "retry")
+export interface AiRetryPolicy {
+  maxRetries: number;        // Extra tries per model for retryable errors
+  baseDelayMs: number;       // First backoff delay; doubles on each retry
+  maxDelayMs: number;
+  attemptTimeoutMs: number;  // One request, including the whole stream
+}
+
+export interface AiSettings {
+  tasks: ModelChains;
+  retry: AiRetryPolicy;
+}
+
+// Why an AI request failed. Decides whether it is retried, handed to the next model, or stops the chain.
+export type AiErrorCode =
+  | 'rate-limit' | 'timeout' | 'server' | 'network' | 'empty'   // retried with backoff
+  | 'invalid-output' | 'truncated' | 'safety' | 'bad-request' | 'config'  // next model
+  | 'input-too-large' | 'auth' | 'cancelled';                    // stop
+
+// One try of one model, kept so a failure can show everything that was attempted
+export interface AiAttempt {
+  model: string;
+  attempt: number;           // 1-based, per model
+  code: AiErrorCode;
+  message: string;
+  durationMs: number;
+}
+
+export type TranscriptFormat = 'vtt' | 'srt' | 'zoom-txt';
+
+// Output formats for cleaned captions ('txt' is an untimed plain-text transcript)
+export type CaptionFormat = 'srt' | 'vtt' | 'txt';
+
+export interface TranscriptCue {
+  index: number;          // 1-based position in the transcript
+  startMs: number;
+  endMs: number;
+  speaker: string | null; // "John Doe" from "John Doe: Hello" or <v John Doe>
+  text: string;           // Spoken text with speaker prefix and markup removed
+}
+
+export interface ParsedTranscript {
+  format: TranscriptFormat;
+  cues: TranscriptCue[];
+  durationMs: number;     // End time of the last spoken cue
+  speakers: string[];     // Unique speakers in order of first appearance
+}
+
 export interface ProcessorState {
   file: File | null;
   fileContent: string | null;
+  transcript: ParsedTranscript | null;
   status: AppState;
   errorMessage: string | null;
+  errorAttempts: AiAttempt[] | null;  // Set when an AI job failed, to show what was tried
   chapterResult: ChapterResult | null;
   captionResult: CaptionResult | null;
+  assetsResult: CourseAssets | null;
+  momentsResult: BunnyMoment[] | null;
 }
 
 export interface BunnyChapter {
   title: string;
   start: number;
   end: number;
+  summary?: string; // Generated description; shown in the app, never sent to Bunny.net
+}
+
+// Labelled point in time on the Bunny.net player (key highlight)
+export interface BunnyMoment {
+  label: string;
+  timestamp: number; // Seconds
+}
+
+// Bunny.net video meta tag; the player and embeds read property "description"
+export interface BunnyMetaTag {
+  property: string;
+  value: string;
+}
+
+// One write to the video object; omitted fields are left as they are on Bunny.net
+export interface VideoMetadataUpdate {
+  title?: string;
+  metaTags?: BunnyMetaTag[];  // Replaces the whole list
+  moments?: BunnyMoment[];
+  chapters?: BunnyChapter[];
+}
+
+export interface CaptionLanguage {
+  srclang: string; // e.g. "en"
+  label: string;   // e.g. "English"
+}
+
+export interface ChapterPolicy {
+  minChapterSeconds: number;      // 0 = no minimum
+  maxChapters: number | null;     // null = no limit
+  blockOnWarnings: boolean;       // Treat rule warnings as deploy-blocking errors
+}
+
+// One entry of the server-side library registry (config/libraries.json or BUNNY_LIBRARY_REGISTRY)
+export interface BunnyLibrary {
+  name: string;
+  libraryId: string;
+  keyEnv: string | null;          // Name of the env var holding the API key (admins only)
+  keyConfigured: boolean;         // Whether that env var is set on the server
+  canWrite: boolean;              // Whether the signed-in user may deploy to it
+  captionLanguages: CaptionLanguage[];
+  chapterPolicy: ChapterPolicy;
+  chapterTitles: ChapterTitleConfig;
+  cdnHostname: string | null;     // Pull zone; when set, snapshots keep caption file contents
+}
+
+export interface LibraryHealth {
+  libraryId: string;
+  ok: boolean;
+  keyEnv: string | null;          // Env var the key was resolved from
+  message: string;
+  totalVideos: number | null;
+}
+
+export type UserRole = 'admin' | 'editor' | 'viewer';
+
+export interface SessionUser {
+  username: string;
+  role: UserRole;
+  libraries: string[];            // Library IDs the user may access ("*" = all)
+}
+
+export interface AuthSession {
+  token: string;
+  expiresAt: number;              // Epoch seconds
+  user: SessionUser;
 }
 
 export interface BunnyConfig {
@@ -41,4 +210,108 @@ export enum BunnyStatus {
   UPLOADING = 'UPLOADING',
   SUCCESS = 'SUCCESS',
   ERROR = 'ERROR',
-}
\ No newline at end of file
+}
+
+export interface BunnyCaptionTrack {
+  srclang: string; // Language code, e.g. "en"
+  label: string;   // Display name shown in the player, e.g. "English"
+  content: string; // Raw SRT/VTT text
+}
+
+export interface BunnyVideoInfo {
+  guid: string;
+  title: string;
+  lengthSeconds: number;          // Real encoded length
+  status: number | null;          // Bunny.net status code (4 = Finished)
+  encodeProgress: number | null;  // 0-100
+  dateUploaded: string | null;
+  chapters: BunnyChapter[];       // Chapters currently on the video
+  captions: { srclang: string; label: string }[];
+  metaTags: BunnyMetaTag[];
+  moments: BunnyMoment[];
+}
+
+export interface BunnyVideoSummary {
+  guid: string;
+  title: string;
+  lengthSeconds: number;
+  status: number | null;
+  dateUploaded: string | null;
+  collectionId: string | null;
+  collectionName: string | null;
+}
+
+export interface BunnyVideoPage {
+  page: number;
+  itemsPerPage: number;
+  totalItems: number;
+  videos: BunnyVideoSummary[];
+}
+
+export type BatchItemStatus = 'pending' | 'processing' | 'processed' | 'deploying' | 'deployed' | 'error';
+
+// One Bunny.net write of a batch deploy
+export type BatchDeployStep = 'chapters' | 'captions';
+
+export interface BatchItem {
+  id: string;
+  fileName: string;
+  content: string;                     // Raw file text, sent to the chapter model
+  transcript: ParsedTranscript | null; // null when the file failed to parse
+  libraryId: string;
+  videoId: string;
+  status: BatchItemStatus;
+  message: string | null;              // Progress or error detail for the status column
+  chapterResult: ChapterResult | null;
+  captionResult: CaptionResult | null;
+  deployedSteps: BatchDeployStep[];    // Writes that already went through, skipped when a deploy is retried
+}
+
+export interface BatchOptions {
+  chapters: boolean;
+  captions: boolean;
+  captionLanguage: string; // srclang for caption uploads
+  captionLabel: string;
+  captionFormat: 'srt' | 'vtt'; // Format the cleaned captions are uploaded in
+}
+
+export interface AuditVideoState {
+  title: string;
+  chapters: BunnyChapter[];
+  captions: { srclang: string; label: string; content: string | null }[]; // content: null unless the library has a cdnHostname
+  metaTags?: BunnyMetaTag[];      // Missing in entries recorded before metadata updates existed
+  moments?: BunnyMoment[];
+}
+
+// One Bunny.net write, as recorded by the API
+export interface AuditEntry {
+  id: string;
+  timestamp: string;              // ISO 8601
+  username: string;
+  role: UserRole;
+  action: 'chapters' | 'captions' | 'moments' | 'metadata';  // metadata: more than one kind of field, or title/meta tags
+  libraryId: string;
+  videoId: string;
+  videoTitle: string | null;
+  previous: AuditVideoState | null;  // Null when the video could not be read before the write
+  payload: VideoMetadataUpdate & { srclang?: string; label?: string; captions?: string };
+  upstreamStatus: number;
+  success: boolean;
+  upstreamError: string | null;
+  restoredFrom: string | null;    // Audit entry whose snapshot this write restored
+}
+
+// A page of the audit log, with how the server keeps it
+export interface AuditLogResult {
+  entries: AuditEntry[];              // Newest first
+  ephemeral: boolean;                 // Stored in the server's temp dir; entries can disappear
+  restoreBlockedReason: string | null; // Set when the server refuses restores
+}
+
+// A caption track taken from a snapshot, waiting to be re-uploaded
+export interface CaptionRestoreRequest {
+  entryId: string;
+  srclang: string;
+  label: string;
+  content: string;
+}